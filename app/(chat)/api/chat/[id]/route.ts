@@ -0,0 +1,113 @@
+import { NextRequest } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { ChatError, chatErrorResponse } from "@/lib/chat/errors";
+import { readGeneration, stopGeneration } from "@/lib/generations";
+import { encodeSSE } from "@/lib/sse";
+
+// `id` is the generation id, i.e. the id of the assistant message
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const POLL_INTERVAL_MS = 250;
+
+/**
+ * Resumes the stream of a generation. Replays the events after the
+ * `Last-Event-ID` header and then follows the generation until it ends.
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) {
+    return chatErrorResponse(new ChatError("unauthorized", "Unauthorized"));
+  }
+
+  try {
+    const lastEventId = Number(request.headers.get("last-event-id") ?? 0);
+    if (!Number.isInteger(lastEventId) || lastEventId < 0) {
+      return chatErrorResponse(
+        new ChatError("invalid_request", "Invalid Last-Event-ID")
+      );
+    }
+
+    const initial = await readGeneration(id, user.id, lastEventId);
+    if (!initial) {
+      return chatErrorResponse(
+        new ChatError("not_found", "Generation not found")
+      );
+    }
+
+    const encoder = new TextEncoder();
+
+    const readable = new ReadableStream({
+      async start(controller) {
+        let snapshot: typeof initial | null = initial;
+        let afterEventId = lastEventId;
+
+        try {
+          while (snapshot && !request.signal.aborted) {
+            for (const event of snapshot.events) {
+              controller.enqueue(
+                encoder.encode(
+                  encodeSSE({ id: String(event.id), data: event.data })
+                )
+              );
+              afterEventId = event.id;
+            }
+            if (snapshot.status !== "streaming") break;
+
+            await new Promise((resolve) =>
+              setTimeout(resolve, POLL_INTERVAL_MS)
+            );
+            snapshot = await readGeneration(id, user.id, afterEventId);
+          }
+          if (!request.signal.aborted) controller.close();
+        } catch (error) {
+          console.error("Error resuming generation:", error);
+          if (!request.signal.aborted) controller.error(error);
+        }
+      },
+    });
+
+    return new Response(readable, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+      },
+    });
+  } catch (error) {
+    console.error("Error resuming generation:", error);
+    return chatErrorResponse(
+      new ChatError("internal_error", "Internal server error")
+    );
+  }
+}
+
+/** Stops a generation, e.g. when the user presses Stop. */
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) {
+    return chatErrorResponse(new ChatError("unauthorized", "Unauthorized"));
+  }
+
+  try {
+    if (!(await stopGeneration(id, user.id))) {
+      return chatErrorResponse(
+        new ChatError("not_found", "No running generation with this id")
+      );
+    }
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    console.error("Error stopping generation:", error);
+    return chatErrorResponse(
+      new ChatError("internal_error", "Internal server error")
+    );
+  }
+}
@@ -1,11 +1,36 @@
-import { NextRequest, NextResponse } from "next/server";
-import OpenAI from "openai";
-import { sendEvent, isFeatureEntitled } from "@getlumen/server";
+import { NextRequest } from "next/server";
 import { createClient } from "@/lib/supabase/server";
 import { AVAILABLE_MODELS } from "@/lib/constants";
-import { anthropicStream } from "./anthropic-helper";
-
-const FEATURE_NAME = "chat-messages";
+import { getProvider } from "@/lib/providers";
+import { streamChatWithTools } from "@/lib/tools";
+import {
+  reserveCredits,
+  commitReservation,
+  releaseReservation,
+  type ReserveResult,
+} from "@/lib/credit-reservations";
+import { ensureConversation, insertMessages } from "@/lib/conversations";
+import {
+  estimateCredits,
+  getQuotaFeature,
+  type MeterEvent,
+} from "@/lib/metering";
+import { recordUsageEvent } from "@/lib/usage";
+import { getPlanTier, isModelEntitled } from "@/lib/model-access";
+import { checkRateLimit } from "@/lib/rate-limit";
+import { getUserApiKey } from "@/lib/api-key-vault";
+import {
+  ChatError,
+  chatErrorResponse,
+  toProviderError,
+} from "@/lib/chat/errors";
+import { chatRequestSchema, formatIssues } from "@/lib/chat/schema";
+import { encodeSSE } from "@/lib/sse";
+import { startGeneration, type Generation } from "@/lib/generations";
+import { estimateMessageTokens, estimateTokens } from "@/lib/tokens";
+import { validateParameters } from "@/lib/chat/parameters";
+import { fitToContext } from "@/lib/chat/context";
+import type { ToolInvocation } from "@/lib/chat/types";
 
 export async function POST(request: NextRequest) {
   const supabase = await createClient();
@@ -13,151 +38,372 @@ export async function POST(request: NextRequest) {
     data: { user },
   } = await supabase.auth.getUser();
   if (!user) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-  }
-
-  if (
-    !(await isFeatureEntitled({
-      feature: FEATURE_NAME,
-      userId: user.id,
-      apiUrl: process.env.LUMEN_API_URL,
-    }))
-  ) {
-    return NextResponse.json({ error: "Not entitled" }, { status: 401 });
+    return chatErrorResponse(new ChatError("unauthorized", "Unauthorized"));
   }
 
   try {
-    const {
-      messages,
-      model = "gpt-3.5-turbo",
-      provider = "openai",
-      userApiKey,
-    } = await request.json();
-
-    if (!messages || !Array.isArray(messages)) {
-      return NextResponse.json(
-        { error: "Messages array is required" },
-        { status: 400 }
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return chatErrorResponse(
+        new ChatError("invalid_request", "Request body must be valid JSON")
       );
     }
 
+    const parsed = chatRequestSchema.safeParse(body);
+    if (!parsed.success) {
+      return chatErrorResponse(
+        new ChatError("invalid_request", formatIssues(parsed.error))
+      );
+    }
+    const {
+      messages,
+      model,
+      idempotencyKey,
+      chatId,
+      userMessage,
+      systemPrompt,
+      parameters,
+    } = parsed.data;
+
     const supportedModel = AVAILABLE_MODELS.find((m) => m.id === model);
     if (!supportedModel) {
-      throw new Error(`Model not supported: ${model}`);
+      return chatErrorResponse(
+        new ChatError("model_not_supported", `Model not supported: ${model}`)
+      );
+    }
+
+    const validatedParameters = validateParameters(parameters, supportedModel);
+    if (!validatedParameters.success) {
+      return chatErrorResponse(
+        new ChatError(
+          "invalid_request",
+          `Invalid parameters: ${validatedParameters.error}`
+        )
+      );
+    }
+
+    // Models outside the base plan need their own feature on top of the
+    // quota checked by the reservation
+    const quotaFeature = getQuotaFeature(supportedModel);
+    if (
+      supportedModel.feature !== quotaFeature &&
+      !(await isModelEntitled(user.id, supportedModel))
+    ) {
+      return chatErrorResponse(
+        new ChatError(
+          "not_entitled",
+          `Your plan does not include ${supportedModel.name}`
+        )
+      );
+    }
+
+    // Keys users stored on the settings page take precedence over the
+    // server's; such requests are not metered
+    let userApiKey: string | null = null;
+    try {
+      userApiKey = await getUserApiKey(user.id, supportedModel.provider);
+    } catch (error) {
+      console.error("Failed to load user API key:", error);
+    }
+
+    // Requests per minute and concurrent replies, by plan tier. The slot
+    // taken here is held until the generation ends.
+    const rateLimit = await checkRateLimit(user.id, await getPlanTier(user.id));
+    if (!rateLimit.ok) {
+      const { retryAfterSeconds } = rateLimit;
+      return chatErrorResponse(
+        new ChatError(
+          "rate_limited",
+          rateLimit.reason === "concurrency"
+            ? "Too many replies are generating at once. Wait for one to finish."
+            : `You are sending messages too quickly. Try again in ${retryAfterSeconds} seconds.`,
+          { retryAfter: retryAfterSeconds }
+        )
+      );
+    }
+
+    // Reserve before calling the provider; the reservation is committed with
+    // the actual usage on success and released on any failure. Requests on
+    // the user's own key are not billed, so they skip the quota.
+    let reserved: ReserveResult;
+    try {
+      reserved = await reserveCredits({
+        userId: user.id,
+        idempotencyKey,
+        model: supportedModel,
+        feature: quotaFeature,
+        skipEntitlement: userApiKey !== null,
+      });
+    } catch (error) {
+      await rateLimit.release();
+      throw error;
+    }
+    if (!reserved.ok) {
+      await rateLimit.release();
+      return chatErrorResponse(
+        reserved.reason === "not_entitled"
+          ? new ChatError(
+              "not_entitled",
+              "Your plan does not include chat messages"
+            )
+          : new ChatError(
+              "in_progress",
+              reserved.reason === "already_committed"
+                ? "This message was already generated"
+                : "This message is already being generated"
+            )
+      );
+    }
+    const { reservation } = reserved;
+
+    // Saved before streaming so the assistant reply always has a parent
+    if (chatId && userMessage) {
+      try {
+        await ensureConversation(supabase, {
+          id: chatId,
+          title: userMessage.content.substring(0, 50),
+        });
+        await insertMessages(supabase, chatId, [userMessage]);
+      } catch (error) {
+        console.error("Failed to persist user message:", error);
+      }
+    }
+
+    const assistantMessageId = idempotencyKey;
+
+    // Events are buffered under the reply id so that a client whose
+    // connection drops can resume through GET /api/chat/[id]. A dropped
+    // connection keeps the generation running; only a stop aborts it.
+    let generation: Generation | null;
+    try {
+      generation = await startGeneration(assistantMessageId, user.id);
+    } catch (error) {
+      await releaseReservation(reservation);
+      await rateLimit.release();
+      throw error;
+    }
+    if (!generation) {
+      await releaseReservation(reservation);
+      await rateLimit.release();
+      return chatErrorResponse(
+        new ChatError("in_progress", "This message id is already in use")
+      );
     }
 
     const encoder = new TextEncoder();
+    let clientConnected = true;
+    request.signal.addEventListener("abort", () => {
+      clientConnected = false;
+    });
 
     const readable = new ReadableStream({
       async start(controller) {
+        // Every event is numbered and buffered, and forwarded to the client
+        // for as long as it stays connected
+        const send = (data: string) => {
+          const id = generation.record(data);
+          if (!clientConnected) return;
+          try {
+            controller.enqueue(
+              encoder.encode(encodeSSE({ id: String(id), data }))
+            );
+          } catch {
+            clientConnected = false;
+          }
+        };
+        const sendEvent = (event: Record<string, unknown>) =>
+          send(JSON.stringify(event));
+        const close = () => {
+          if (clientConnected) controller.close();
+        };
+
+        // Read by the error path to record what the failed generation used
+        const startTime = Date.now();
+        let promptTokens = 0;
+        let summaryUsage = { inputTokens: 0, outputTokens: 0 };
+        let assistantContent = "";
+
         try {
           // Send initial metadata about the request
-          controller.enqueue(
-            encoder.encode(
-              `data: ${JSON.stringify({
-                type: "metadata",
-                model,
-              })}\n\n`
-            )
+          sendEvent({
+            type: "metadata",
+            model,
+            messageId: assistantMessageId,
+          });
+
+          const chatProvider = getProvider(supportedModel.provider);
+          if (!chatProvider) {
+            throw new Error(`Unknown provider: ${supportedModel.provider}`);
+          }
+
+          const apiKey = userApiKey ?? process.env[chatProvider.apiKeyEnvVar]!;
+
+          // Long histories are cut or summarized to fit the model's window
+          const context = await fitToContext({
+            provider: chatProvider,
+            model: supportedModel,
+            messages,
+            system: systemPrompt?.trim() || undefined,
+            parameters: validatedParameters.data,
+            apiKey,
+            cacheKey: chatId,
+            signal: generation.signal,
+          });
+          if (context.compaction) {
+            sendEvent({ type: "context", ...context.compaction });
+          }
+          promptTokens =
+            estimateMessageTokens(context.messages) +
+            estimateTokens(context.system ?? "");
+          summaryUsage = context.usage;
+
+          const toolCalls: ToolInvocation[] = [];
+          const usage = await streamChatWithTools(
+            chatProvider,
+            {
+              model,
+              messages: context.messages,
+              apiKey,
+              system: context.system,
+              parameters: validatedParameters.data,
+              signal: generation.signal,
+            },
+            { userId: user.id, origin: request.nextUrl.origin },
+            {
+              onContent: (content) => {
+                assistantContent += content;
+                if (generation.signal.aborted) return;
+                sendEvent({ type: "content", content });
+              },
+              onToolCall: (invocation) => {
+                sendEvent({ type: "tool_call", ...invocation });
+              },
+              onToolResult: (invocation) => {
+                toolCalls.push(invocation);
+                sendEvent({ type: "tool_result", ...invocation });
+              },
+            }
           );
 
-          let totalTokens = 0;
-          let inputTokens = 0;
-          let outputTokens = 0;
-          let finishReason = "";
-          let totalCharacters = 0;
-          const startTime = Date.now();
+          const stopped = usage.finishReason === "aborted";
+          if (stopped) {
+            // Aborted streams end before the provider reports usage, so
+            // estimate whatever was not reported from the text itself
+            usage.inputTokens ||=
+              estimateMessageTokens(context.messages) +
+              estimateTokens(context.system ?? "");
+            usage.outputTokens ||= estimateTokens(assistantContent);
+          }
 
-          if (provider === "openai") {
-            const openaiClient = new OpenAI({
-              apiKey: userApiKey || process.env.OPENAI_API_KEY,
-            });
+          // The summary is written for this reply, so it is billed with it
+          usage.inputTokens += context.usage.inputTokens;
+          usage.outputTokens += context.usage.outputTokens;
+          usage.totalTokens = usage.inputTokens + usage.outputTokens;
 
-            const stream = await openaiClient.chat.completions.create({
+          const latencyMs = Date.now() - startTime;
+
+          // One ledger row per generation, written once billing settled
+          const recordUsage = (meterEvents: MeterEvent[]) =>
+            recordUsageEvent({
+              userId: user.id,
+              chatId: chatId ?? null,
+              messageId: assistantMessageId,
               model,
-              messages,
-              stream: true,
-              stream_options: { include_usage: true },
+              provider: chatProvider.id,
+              inputTokens: usage.inputTokens,
+              outputTokens: usage.outputTokens,
+              totalTokens: usage.totalTokens,
+              characters: usage.characters,
+              latencyMs,
+              finishReason: usage.finishReason,
+              costEstimate: estimateCredits(model, usage),
+              metered: meterEvents.length > 0,
+              meterEvents,
             });
 
-            for await (const chunk of stream) {
-              const content = chunk.choices[0]?.delta?.content || "";
-              if (content) {
-                totalCharacters += content.length;
-                controller.enqueue(
-                  encoder.encode(
-                    `data: ${JSON.stringify({
-                      type: "content",
-                      content,
-                    })}\n\n`
-                  )
-                );
-              }
-
-              // Capture usage information from the final chunk
-              if (chunk.usage) {
-                totalTokens = chunk.usage.total_tokens;
-                inputTokens = chunk.usage.prompt_tokens;
-                outputTokens = chunk.usage.completion_tokens;
-              }
-
-              // Capture finish reason
-              if (chunk.choices[0]?.finish_reason) {
-                finishReason = chunk.choices[0].finish_reason;
-              }
-            }
-          } else if (provider === "anthropic") {
-            const usage = await anthropicStream(
-              {
-                model,
-                messages,
-                apiKey: userApiKey || process.env.ANTHROPIC_API_KEY!,
-              },
-              encoder,
-              controller
-            );
+          // A stop before any output is treated like a failure: not billed
+          if (stopped && !assistantContent) {
+            await releaseReservation(reservation);
+            await recordUsage([]);
+            sendEvent({ type: "stopped" });
+            await generation.finish("stopped");
+            close();
+            return;
+          }
 
-            // Update usage info from Anthropic response
-            if (usage) {
-              totalTokens = usage.input_tokens + usage.output_tokens;
-              inputTokens = usage.input_tokens;
-              outputTokens = usage.output_tokens;
-              totalCharacters = usage.characters || 0;
+          // Persist the reply server-side so a closed tab does not lose it
+          if (chatId) {
+            try {
+              await insertMessages(supabase, chatId, [
+                {
+                  id: assistantMessageId,
+                  role: "assistant",
+                  content: assistantContent,
+                  timestamp: new Date(),
+                  model,
+                  stopped,
+                  toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+                  contextCompaction: context.compaction,
+                  parentId: userMessage?.id ?? null,
+                },
+              ]);
+            } catch (error) {
+              console.error("Failed to persist assistant message:", error);
             }
-          } else {
-            throw new Error(`Unknown provider: ${provider}`);
           }
 
-          const endTime = Date.now();
-          const duration = endTime - startTime;
-
-          // Log comprehensive usage information
-          console.log("=== Chat API Usage Information ===");
-          console.log(`User ID: ${user.id}`);
-          console.log(`Provider: ${provider}`);
-          console.log(`Model: ${model}`);
-          console.log(`Total Tokens: ${totalTokens}`);
-          console.log(`Input Tokens: ${inputTokens}`);
-          console.log(`Output Tokens: ${outputTokens}`);
-          console.log(`Characters Generated: ${totalCharacters}`);
-          console.log(`Finish Reason: ${finishReason}`);
-          console.log(`Duration: ${duration}ms`);
-          console.log(`Messages Count: ${messages.length}`);
-          console.log(
-            `Tokens per Second: ${
-              outputTokens > 0
-                ? (outputTokens / (duration / 1000)).toFixed(2)
-                : 0
-            }`
-          );
-          console.log("==================================");
+          // Bill completed and stopped generations for the tokens generated
+          const meterEvents = await commitReservation(reservation, usage, {
+            skipMetering: userApiKey !== null,
+          });
+          await recordUsage(meterEvents);
 
-          controller.enqueue(encoder.encode("data: [DONE]\n\n"));
-          controller.close();
+          if (stopped) {
+            sendEvent({ type: "stopped" });
+            await generation.finish("stopped");
+          } else {
+            send("[DONE]");
+            await generation.finish("done");
+          }
+          close();
         } catch (error) {
-          controller.error(error);
+          // Provider error: nothing is billed, but the attempt is recorded
+          // with the tokens estimated from what was sent and received
+          console.error("Error streaming chat response:", error);
+          await releaseReservation(reservation);
+          const inputTokens = promptTokens + summaryUsage.inputTokens;
+          const outputTokens =
+            estimateTokens(assistantContent) + summaryUsage.outputTokens;
+          await recordUsageEvent({
+            userId: user.id,
+            chatId: chatId ?? null,
+            messageId: assistantMessageId,
+            model,
+            provider: supportedModel.provider,
+            inputTokens,
+            outputTokens,
+            totalTokens: inputTokens + outputTokens,
+            characters: assistantContent.length,
+            latencyMs: Date.now() - startTime,
+            finishReason: "error",
+            costEstimate: estimateCredits(model, { inputTokens, outputTokens }),
+            metered: false,
+            meterEvents: [],
+          });
+
+          // The status line is already sent, so report the error in-stream
+          sendEvent({ type: "error", error: toProviderError(error).toJSON() });
+          await generation.finish("error");
+          close();
+        } finally {
+          await rateLimit.release();
         }
       },
+      cancel() {
+        clientConnected = false;
+      },
     });
 
     return new Response(readable, {
@@ -169,16 +415,8 @@ export async function POST(request: NextRequest) {
     });
   } catch (error) {
     console.error("Error in chat API:", error);
-    return NextResponse.json(
-      { error: "Internal server error" },
-      { status: 500 }
+    return chatErrorResponse(
+      new ChatError("internal_error", "Internal server error")
     );
-  } finally {
-    sendEvent({
-      name: FEATURE_NAME,
-      value: 1,
-      userId: user!.id,
-      apiUrl: process.env.LUMEN_API_URL,
-    });
   }
 }
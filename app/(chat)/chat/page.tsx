@@ -1,7 +1,10 @@
 "use client";
 
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
 import { v4 as uuidv4 } from "uuid";
+import { toast } from "sonner";
 import { useSync } from "@/providers/sync-provider";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -17,56 +20,80 @@ import {
 import {
   PlusIcon,
   SendIcon,
-  TrashIcon,
   ChevronDownIcon,
   XIcon,
   MenuIcon,
   PaperclipIcon,
   FileIcon,
   ImageIcon,
+  SquareIcon,
+  PencilIcon,
+  RefreshCwIcon,
+  SlidersHorizontalIcon,
+  LockIcon,
+  KeyRoundIcon,
+  UploadIcon,
 } from "lucide-react";
 import { createClient } from "@/lib/supabase/client";
 import { UsageBadge } from "@/components/ui/usage-badge";
 import { AVAILABLE_MODELS } from "@/lib/constants";
 import { MessageRenderer } from "@/components/message-renderer";
+import { BranchSwitcher } from "@/components/branch-switcher";
+import { SystemPromptEditor } from "@/components/system-prompt-editor";
+import { GenerationSettings } from "@/components/generation-settings";
+import { clampParameters } from "@/lib/chat/parameters";
+import { readSSE } from "@/lib/sse";
+import { ChatErrorNotice } from "@/components/chat-error-notice";
+import { ChatSearch } from "@/components/chat-search";
+import { ChatList, type ChatPlacement } from "@/components/chat-list";
+import { ExportMenu } from "@/components/export-menu";
+import { ShareMenu } from "@/components/share-menu";
+import { mergeImportedChats, parseImportFile } from "@/lib/chat/import";
+import { createFolder, deleteFolder, renameFolder } from "@/lib/chat/folders";
+import {
+  getExpiredChats,
+  moveToTrash,
+  purgeChats,
+  restoreFromTrash,
+} from "@/lib/chat/trash";
+import type { SearchResult } from "@/lib/chat/search";
+import {
+  ChatError,
+  parseChatError,
+  type ChatErrorBody,
+} from "@/lib/chat/errors";
 import { checkApiKeys } from "@/app/actions/check-keys";
 import type { ApiKeysStatus } from "@/app/actions/check-keys";
-
-interface Attachment {
-  id: string;
-  name: string;
-  type: string;
-  size: number;
-  data: string; // base64 or text content
-  mimeType: string;
-  /**
-   * Relative path of the file inside the Supabase "files" bucket.  Used
-   * to re-download the file when it is not present in localStorage.
-   */
-  supabasePath?: string;
-}
-
-interface Message {
-  id: string;
-  role: "user" | "assistant";
-  content: string;
-  timestamp: Date;
-  model?: string;
-  attachments?: Attachment[];
-}
-
-interface Chat {
-  id: string;
-  title: string;
-  messages: Message[];
-  createdAt: Date;
-  updatedAt: Date;
-}
-
-interface ChatsData {
-  chats: Chat[];
-  currentChatId: string | null;
-}
+import { getModelAccess, type ModelAccess } from "@/app/actions/model-access";
+import { generateChatTitle, renameChat } from "@/app/actions/chat-titles";
+import { purgeDeletedChats } from "@/app/actions/trash";
+import { getProvider, formatMessagesForProvider } from "@/lib/providers";
+import type { ProviderMessage } from "@/lib/providers";
+import type {
+  Attachment,
+  Message,
+  Chat,
+  ChatsData,
+  PersonaPreset,
+  ToolInvocation,
+  ContextCompaction,
+  GenerationParameters,
+} from "@/lib/chat/types";
+import { toAttachmentMetadata } from "@/lib/conversations";
+import {
+  normalizeChat,
+  getActivePath,
+  getPathTo,
+  getSiblings,
+  getLatestLeafId,
+} from "@/lib/chat/tree";
+
+// Reconnects tried when a reply stream drops, with a growing delay
+const MAX_RESUME_ATTEMPTS = 3;
+const RESUME_DELAY_MS = 1000;
+// Checks for the persisted reply once resuming failed
+const RECOVERY_ATTEMPTS = 20;
+const RECOVERY_DELAY_MS = 3000;
 
 export default function ChatPage() {
   const { state, updateState, isLoading } = useSync();
@@ -75,22 +102,54 @@ export default function ChatPage() {
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
   const [streamingMessage, setStreamingMessage] = useState("");
+  const [streamingToolCalls, setStreamingToolCalls] = useState<
+    ToolInvocation[]
+  >([]);
   const [currentChat, setCurrentChat] = useState<Chat | null>(null);
   const [shouldFocusInput, setShouldFocusInput] = useState(false);
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const [attachments, setAttachments] = useState<Attachment[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const generationIdRef = useRef<string | null>(null);
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [editingContent, setEditingContent] = useState("");
+  const [isSystemPromptOpen, setIsSystemPromptOpen] = useState(false);
+  // Error of the last generation in the current chat, shown inline
+  const [chatError, setChatError] = useState<ChatErrorBody | null>(null);
   const [isUploadingFiles, setIsUploadingFiles] = useState(false);
   const [apiKeysStatus, setApiKeysStatus] = useState<ApiKeysStatus | null>(
     null
   );
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  // Message opened from search, highlighted until the timeout clears it
+  const [scrollTargetId, setScrollTargetId] = useState<string | null>(null);
+  // Models the user's plan unlocks; null until loaded, when none are locked
+  const [modelAccess, setModelAccess] = useState<ModelAccess | null>(null);
+  const router = useRouter();
 
   // Get data from centralized state with defaults
   const chatsData: ChatsData = state.chats || {
     chats: [],
     currentChatId: null,
   };
+  // Chats outside the trash, the ones search and "Export all" cover. Memoized
+  // so that the search index is only rebuilt when the chats change
+  const liveChats = useMemo(
+    () => chatsData.chats.filter((chat) => !chat.deletedAt),
+    [chatsData.chats]
+  );
+  // Read by callbacks that finish after later saves, e.g. title generation
+  const latestChatsRef = useRef(chatsData);
+  useEffect(() => {
+    latestChatsRef.current = chatsData;
+  });
   const selectedModel: string = state.selectedModel || "gpt-3.5-turbo";
+  const personaPresets: PersonaPreset[] = state.personaPresets || [];
+  const activeMessages: Message[] = currentChat
+    ? getActivePath(currentChat)
+    : [];
   const [user, setUser] = useState<any>(null);
 
   const supabase = createClient();
@@ -107,6 +166,12 @@ export default function ChatPage() {
     checkAuth();
   }, []);
 
+  // Load which models the user's plan unlocks
+  useEffect(() => {
+    if (!user) return;
+    getModelAccess().then(setModelAccess).catch(console.error);
+  }, [user]);
+
   // Check server-side API keys status
   useEffect(() => {
     const run = async () => {
@@ -133,7 +198,7 @@ export default function ChatPage() {
     const foundChat = latestChatsData.chats.find(
       (chat) => chat.id === latestChatsData.currentChatId
     );
-    setCurrentChat(foundChat || null);
+    setCurrentChat(foundChat ? normalizeChat(foundChat) : null);
   }, [state.chats]);
 
   // Focus input when page loads and when current chat changes
@@ -141,6 +206,11 @@ export default function ChatPage() {
     inputRef.current?.focus();
   }, [currentChat]);
 
+  // Errors belong to the chat they happened in
+  useEffect(() => {
+    setChatError(null);
+  }, [currentChat?.id]);
+
   // Focus input when shouldFocusInput is true
   useEffect(() => {
     if (shouldFocusInput) {
@@ -154,6 +224,17 @@ export default function ChatPage() {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   }, [chatsData.chats, streamingMessage]);
 
+  // Scroll to and briefly highlight a message opened from search. Declared
+  // after the effect above so that it wins over the scroll to the bottom.
+  useEffect(() => {
+    if (!scrollTargetId) return;
+    document
+      .getElementById(`message-${scrollTargetId}`)
+      ?.scrollIntoView({ behavior: "smooth", block: "center" });
+    const timeout = setTimeout(() => setScrollTargetId(null), 2000);
+    return () => clearTimeout(timeout);
+  }, [scrollTargetId, currentChat?.id, currentChat?.currentLeafId]);
+
   // Update selected model when it changes
   const handleModelChange = (modelId: string) => {
     updateState("selectedModel", modelId);
@@ -173,6 +254,7 @@ export default function ChatPage() {
     };
 
     const newChatsData = {
+      ...chatsData,
       chats: [newChat, ...chatsData.chats],
       currentChatId: newChat.id,
     };
@@ -193,21 +275,51 @@ export default function ChatPage() {
     await saveChats(newChatsData);
   };
 
+  // Deleted chats go to the trash first; the toast offers to undo that
   const deleteChat = async (chatId: string) => {
-    const updatedChats = chatsData.chats.filter((chat) => chat.id !== chatId);
-    const newCurrentChatId =
-      chatsData.currentChatId === chatId
-        ? updatedChats.length > 0
-          ? updatedChats[0].id
-          : null
-        : chatsData.currentChatId;
+    const wasCurrent = chatsData.currentChatId === chatId;
+    await saveChats(moveToTrash(chatsData, chatId));
+
+    toast("Chat moved to trash", {
+      action: {
+        label: "Undo",
+        onClick: () => {
+          const restored = restoreFromTrash(latestChatsRef.current, chatId);
+          saveChats(
+            wasCurrent ? { ...restored, currentChatId: chatId } : restored
+          ).catch(console.error);
+        },
+      },
+    });
+  };
 
-    const newChatsData = {
-      chats: updatedChats,
-      currentChatId: newCurrentChatId,
-    };
+  const restoreChat = async (chatId: string) => {
+    await saveChats(restoreFromTrash(state.chats || chatsData, chatId));
+  };
 
-    await saveChats(newChatsData);
+  /**
+   * Deletes chats for good. For signed-in users the server copies and
+   * Storage files go first, so that a failure leaves the chats in the trash
+   * to be tried again.
+   */
+  const purgeChatsForGood = async (chatIds: string[]) => {
+    const { attachmentIds, storagePaths } = purgeChats(
+      latestChatsRef.current,
+      chatIds
+    );
+    if (user) {
+      const { error } = await purgeDeletedChats({ chatIds, storagePaths });
+      if (error) {
+        toast.error(error);
+        return;
+      }
+    }
+
+    // Purging may take a while; start from the latest chats again
+    await saveChats(purgeChats(latestChatsRef.current, chatIds).data);
+    for (const id of attachmentIds) {
+      localStorage.removeItem(`attachment_${id}`);
+    }
   };
 
   /**
@@ -332,6 +444,30 @@ export default function ChatPage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [currentChat]);
 
+  // If the open branch is still waiting for a reply (e.g. the tab was closed
+  // mid-stream) or ends on a stopped one, pick up what the server persisted.
+  useEffect(() => {
+    if (!user || !currentChat || isLoadingMessage) return;
+    const path = getActivePath(currentChat);
+    const lastMessage = path[path.length - 1];
+    if (!lastMessage) return;
+    if (lastMessage.role === "assistant" && !lastMessage.stopped) return;
+
+    recoverServerMessages(currentChat.id).catch(console.error);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currentChat?.id, user]);
+
+  // Empty the trash of chats past their retention once the chats are loaded.
+  // Waits for the user so that their files are purged from Storage too.
+  useEffect(() => {
+    if (isLoading || !user) return;
+    const expired = getExpiredChats(state.chats || chatsData);
+    if (expired.length === 0) return;
+
+    purgeChatsForGood(expired.map((chat) => chat.id)).catch(console.error);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isLoading, user]);
+
   const processFile = async (file: File): Promise<Attachment> => {
     return new Promise((resolve, reject) => {
       const reader = new FileReader();
@@ -462,101 +598,363 @@ export default function ChatPage() {
     setAttachments((prev) => prev.filter((att) => att.id !== attachmentId));
   };
 
-  const formatMessagesForAPI = (
-    messages: Message[],
-    provider: "openai" | "anthropic"
-  ) => {
-    return messages.map((message) => {
-      if (!message.attachments || message.attachments.length === 0) {
-        return {
-          role: message.role,
-          content: message.content,
-        };
-      }
-
-      // Message has attachments - convert to multimodal format
-      const contentParts: any[] = [];
-
-      // Add text content if present
-      if (message.content.trim()) {
-        contentParts.push({
-          type: "text",
-          text: message.content,
-        });
-      }
-
-      // Add attachments
-      message.attachments.forEach((attachment) => {
-        if (attachment.type === "image") {
-          if (provider === "openai") {
-            contentParts.push({
-              type: "image_url",
-              image_url: {
-                url: attachment.data, // includes data:image/jpeg;base64, prefix
-              },
-            });
-          } else if (provider === "anthropic") {
-            // Extract base64 data without the data URL prefix
-            const base64Data = attachment.data.split(",")[1];
-            contentParts.push({
-              type: "image",
-              source: {
-                type: "base64",
-                media_type: attachment.mimeType,
-                data: base64Data,
-              },
-            });
-          }
-        } else if (attachment.type === "text") {
-          // For text files, include the content as text
-          contentParts.push({
-            type: "text",
-            text: `File: ${attachment.name}\n\n${attachment.data}`,
-          });
-        }
-      });
-
-      return {
-        role: message.role,
-        content: contentParts,
-      };
-    });
+  const formatMessagesForAPI = (messages: Message[], providerId: string) => {
+    const provider = getProvider(providerId);
+    if (!provider) {
+      throw new Error(`Unknown provider: ${providerId}`);
+    }
+    return formatMessagesForProvider(provider, messages);
   };
 
   // Call Anthropic directly from the browser. Note that CORS is enabled by
   // sending the special header: "anthropic-dangerous-direct-browser-access".
 
   const callBackendAPI = async (
-    messages: Array<{ role: string; content: string | any[] }>
+    messages: ProviderMessage[],
+    chatId: string,
+    userMessage: Message,
+    assistantMessageId: string,
+    chat: Chat | undefined,
+    signal: AbortSignal
   ) => {
+    const model =
+      AVAILABLE_MODELS.find((m) => m.id === selectedModel) ||
+      AVAILABLE_MODELS[0];
+
     const response = await fetch("/api/chat", {
       method: "POST",
+      signal,
       headers: {
         "Content-Type": "application/json",
       },
       body: JSON.stringify({
         messages,
         model: selectedModel,
-        provider:
-          AVAILABLE_MODELS.find((m) => m.id === selectedModel)?.provider ||
-          "openai",
+        // One key per reply attempt so retries are never billed twice
+        idempotencyKey: assistantMessageId,
+        chatId,
+        userMessage: {
+          ...userMessage,
+          attachments: toAttachmentMetadata(userMessage.attachments),
+        },
+        systemPrompt: chat?.systemPrompt,
+        parameters: clampParameters(chat?.parameters, model),
       }),
     });
 
     if (!response.ok) {
-      throw new Error("Failed to send message");
+      throw parseChatError(await response.json().catch(() => null));
     }
 
     return response;
   };
 
-  const sendMessage = async () => {
-    if ((!inputMessage.trim() && attachments.length === 0) || isLoadingMessage)
-      return;
+  // Reconnects to a reply stream, replaying the events after `lastEventId`
+  const resumeReply = async (
+    generationId: string,
+    lastEventId: number,
+    signal: AbortSignal
+  ) => {
+    const response = await fetch(`/api/chat/${generationId}`, {
+      signal,
+      headers: { "Last-Event-ID": String(lastEventId) },
+    });
+
+    if (!response.ok) {
+      throw parseChatError(await response.json().catch(() => null));
+    }
 
+    return response;
+  };
+
+  /**
+   * Merges the replies the server persisted for a chat into it: replies
+   * this tab lacks are added and local copies that differ are replaced, so
+   * the server's full reply wins over a partial one. The open branch follows
+   * new replies. Returns whether anything changed.
+   */
+  const recoverServerMessages = async (chatId: string) => {
+    const response = await fetch(`/api/conversations/${chatId}/messages`);
+    if (!response.ok) return false;
+
+    const { messages }: { messages: Message[] } = await response.json();
+    const chat = latestChatsRef.current.chats.find((c) => c.id === chatId);
+    if (!chat) return false;
+
+    // User messages are kept as they are, since only this tab has the data
+    // of their attachments
+    const local = new Map(chat.messages.map((m) => [m.id, m]));
+    const changed = new Map(
+      messages
+        .filter((message) => {
+          const mine = local.get(message.id);
+          return (
+            !mine ||
+            (message.role === "assistant" &&
+              (mine.content !== message.content ||
+                !!mine.stopped !== !!message.stopped))
+          );
+        })
+        .map((message) => [message.id, message])
+    );
+    if (changed.size === 0) return false;
+
+    await saveChats(
+      updateChat(latestChatsRef.current, chatId, (chat) => {
+        const merged = {
+          ...chat,
+          messages: [
+            ...chat.messages.map((m) => changed.get(m.id) ?? m),
+            ...[...changed.values()].filter((m) => !local.has(m.id)),
+          ],
+        };
+        return {
+          messages: merged.messages,
+          currentLeafId: chat.currentLeafId
+            ? getLatestLeafId(merged, chat.currentLeafId)
+            : chat.currentLeafId,
+          updatedAt: new Date(),
+        };
+      })
+    );
+    return true;
+  };
+
+  // After the connection to a reply was lost for good, waits for the server
+  // to finish and persist it
+  const waitForServerReply = async (chatId: string) => {
+    for (let attempt = 0; attempt < RECOVERY_ATTEMPTS; attempt++) {
+      await new Promise((resolve) => setTimeout(resolve, RECOVERY_DELAY_MS));
+      if (await recoverServerMessages(chatId)) {
+        setChatError(null);
+        return;
+      }
+    }
+  };
+
+  // Applies `update` to one chat, upgrading it to the branching model first
+  const updateChat = (
+    baseChatsData: ChatsData,
+    chatId: string,
+    update: (chat: Chat) => Partial<Chat>
+  ): ChatsData => ({
+    ...baseChatsData,
+    chats: baseChatsData.chats.map((chat: Chat) => {
+      if (chat.id !== chatId) return chat;
+      const normalized = normalizeChat(chat);
+      return { ...normalized, ...update(normalized) };
+    }),
+  });
+
+  /**
+   * Streams an assistant reply to the last message of `history` and saves it
+   * as a child of that message, making it the current leaf of the chat.
+   */
+  const streamReply = async (
+    baseChatsData: ChatsData,
+    chatId: string,
+    history: Message[]
+  ) => {
     const modelProvider =
       AVAILABLE_MODELS.find((m) => m.id === selectedModel)?.provider ||
       "openai";
+    const userMessage = history[history.length - 1];
+
+    setIsLoadingMessage(true);
+    setStreamingMessage("");
+    setStreamingToolCalls([]);
+    setChatError(null);
+
+    let assistantContent = "";
+    let toolCalls: ToolInvocation[] = [];
+    let contextCompaction: ContextCompaction | undefined;
+    let stopped = false;
+    let lostConnection = false;
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    // Also used as the idempotency key and generation id, so the server
+    // stores and buffers the reply under the same id
+    const assistantMessageId = uuidv4();
+    generationIdRef.current = assistantMessageId;
+
+    try {
+      const messagesToSend = formatMessagesForAPI(history, modelProvider);
+
+      // Attempt a direct browser call when an API key is available.
+
+      // If frontend call failed and user is logged in, or no API key but user logged in
+      if (user) {
+        try {
+          // Server-reported errors end the reply. Network errors leave the
+          // reply unfinished, to be resumed from the last event received.
+          let lastEventId = 0;
+          let finished = false;
+          const readReply = async (response: Response) => {
+            if (!response.body) return;
+            for await (const event of readSSE(response.body)) {
+              if (event.id) lastEventId = Number(event.id);
+              if (event.data === "[DONE]") {
+                finished = true;
+                break;
+              }
+
+              let parsed;
+              try {
+                parsed = JSON.parse(event.data);
+              } catch (error) {
+                console.error("Error parsing response:", error);
+                // Ignore parsing errors
+                continue;
+              }
+              if (parsed.type === "content" && parsed.content) {
+                assistantContent += parsed.content;
+                setStreamingMessage(assistantContent);
+              } else if (
+                parsed.type === "tool_call" ||
+                parsed.type === "tool_result"
+              ) {
+                // A result replaces the pending call with the same id
+                const invocation: ToolInvocation = {
+                  id: parsed.id,
+                  name: parsed.name,
+                  arguments: parsed.arguments,
+                  result: parsed.result,
+                  isError: parsed.isError,
+                };
+                toolCalls = [
+                  ...toolCalls.filter((call) => call.id !== invocation.id),
+                  invocation,
+                ];
+                setStreamingToolCalls(toolCalls);
+              } else if (parsed.type === "context") {
+                contextCompaction = {
+                  omitted: parsed.omitted,
+                  summarized: parsed.summarized,
+                };
+              } else if (parsed.type === "stopped") {
+                finished = true;
+                stopped = true;
+                break;
+              } else if (parsed.type === "error") {
+                finished = true;
+                throw parseChatError(parsed);
+              }
+            }
+          };
+
+          const response = await callBackendAPI(
+            messagesToSend,
+            chatId,
+            userMessage,
+            assistantMessageId,
+            baseChatsData.chats.find((c) => c.id === chatId),
+            abortController.signal
+          );
+
+          for (let attempt = 0; !finished; attempt++) {
+            if (attempt > MAX_RESUME_ATTEMPTS) {
+              // The server keeps generating and saves the full reply, which
+              // is loaded once it is there; a partial copy would shadow it
+              lostConnection = true;
+              setChatError({
+                code: "internal_error",
+                message:
+                  "Lost connection while the reply was streaming. It will appear here once it is finished.",
+              });
+              break;
+            }
+            try {
+              await readReply(
+                attempt === 0
+                  ? response
+                  : await resumeReply(
+                      assistantMessageId,
+                      lastEventId,
+                      abortController.signal
+                    )
+              );
+            } catch (error) {
+              if (error instanceof ChatError || abortController.signal.aborted)
+                throw error;
+              console.error("Reply stream interrupted:", error);
+            }
+            if (!finished && attempt < MAX_RESUME_ATTEMPTS) {
+              await new Promise((resolve) =>
+                setTimeout(resolve, RESUME_DELAY_MS * (attempt + 1))
+              );
+            }
+          }
+        } catch (error) {
+          // Stop keeps whatever was streamed so far
+          if (!abortController.signal.aborted) throw error;
+          stopped = true;
+        }
+      }
+
+      // Clear the in-progress streaming message before finalizing
+      setStreamingMessage("");
+
+      if (lostConnection) {
+        waitForServerReply(chatId).catch(console.error);
+        return;
+      }
+
+      // Stopped before anything was generated: the server did not bill it
+      if (stopped && !assistantContent) return;
+
+      // Add assistant message
+      const assistantMessage: Message = {
+        id: assistantMessageId,
+        role: "assistant",
+        content: assistantContent,
+        timestamp: new Date(),
+        model: selectedModel,
+        stopped: stopped || undefined,
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+        contextCompaction,
+        parentId: userMessage.id,
+      };
+
+      await saveChats(
+        updateChat(baseChatsData, chatId, (chat) => ({
+          messages: [...chat.messages, assistantMessage],
+          currentLeafId: assistantMessage.id,
+          updatedAt: new Date(),
+          title:
+            history.length === 1 && chat.titleSource !== "manual"
+              ? history[0].content.substring(0, 50) +
+                (history[0].content.length > 50 ? "..." : "")
+              : chat.title,
+        }))
+      );
+
+      // Name the chat in the background once its first exchange is saved
+      if (user && history.length === 1) {
+        nameChat(chatId);
+      }
+    } catch (error) {
+      console.error("Error sending message:", error);
+      setChatError(
+        error instanceof ChatError
+          ? error.toJSON()
+          : { code: "internal_error", message: "Failed to send message" }
+      );
+      // Failed generations are never billed: the server releases the credit
+      // reservation keyed by the reply id
+    } finally {
+      abortControllerRef.current = null;
+      generationIdRef.current = null;
+      setIsLoadingMessage(false);
+      setStreamingMessage("");
+      setStreamingToolCalls([]);
+      // Trigger input focus after all state updates complete
+      setShouldFocusInput(true);
+    }
+  };
+
+  const sendMessage = async () => {
+    if ((!inputMessage.trim() && attachments.length === 0) || isLoadingMessage)
+      return;
 
     if (!currentChat) return;
 
@@ -567,127 +965,227 @@ export default function ChatPage() {
 
     setInputMessage("");
     setAttachments([]);
-    setIsLoadingMessage(true);
-    setStreamingMessage("");
 
+    const path = getActivePath(currentChat);
     const userMessage: Message = {
       id: uuidv4(),
       role: "user",
       content: messageContent,
       timestamp: new Date(),
       attachments: messageAttachments,
+      parentId: path[path.length - 1]?.id ?? null,
     };
 
     // Add user message - use the current state
-    const currentChatsData = state.chats || chatsData;
-    const updatedChats = currentChatsData.chats.map((chat: Chat) =>
-      chat.id === currentChat!.id
-        ? {
-            ...chat,
-            messages: [...chat.messages, userMessage],
-            updatedAt: new Date(),
-          }
-        : chat
+    const newChatsData = updateChat(
+      state.chats || chatsData,
+      currentChat.id,
+      (chat) => ({
+        messages: [...chat.messages, userMessage],
+        currentLeafId: userMessage.id,
+        updatedAt: new Date(),
+      })
     );
+    await saveChats(newChatsData);
 
-    let newChatsData = {
-      ...currentChatsData,
-      chats: updatedChats,
+    await streamReply(newChatsData, currentChat.id, [...path, userMessage]);
+  };
+
+  // Generates another answer to the same user message as a sibling branch
+  const regenerateResponse = async (assistantMessage: Message) => {
+    if (!currentChat || isLoadingMessage || !assistantMessage.parentId) return;
+
+    const parentId = assistantMessage.parentId;
+    const newChatsData = updateChat(
+      state.chats || chatsData,
+      currentChat.id,
+      () => ({ currentLeafId: parentId })
+    );
+    await saveChats(newChatsData);
+
+    await streamReply(
+      newChatsData,
+      currentChat.id,
+      getPathTo(currentChat, parentId)
+    );
+  };
+
+  // Sends an edited copy of a user message as a sibling branch
+  const submitEdit = async (message: Message) => {
+    const content = editingContent.trim();
+    if (!currentChat || isLoadingMessage || !content) return;
+
+    setEditingMessageId(null);
+    setEditingContent("");
+
+    const editedMessage: Message = {
+      id: uuidv4(),
+      role: "user",
+      content,
+      timestamp: new Date(),
+      attachments: message.attachments,
+      parentId: message.parentId ?? null,
     };
 
+    const newChatsData = updateChat(
+      state.chats || chatsData,
+      currentChat.id,
+      (chat) => ({
+        messages: [...chat.messages, editedMessage],
+        currentLeafId: editedMessage.id,
+        updatedAt: new Date(),
+      })
+    );
     await saveChats(newChatsData);
 
-    const messagesToSend = formatMessagesForAPI(
-      [...currentChat.messages, userMessage],
-      (modelProvider as "openai" | "anthropic") || "openai"
+    await streamReply(newChatsData, currentChat.id, [
+      ...getPathTo(currentChat, message.parentId),
+      editedMessage,
+    ]);
+  };
+
+  // Replaces the placeholder title with a generated one, unless the user
+  // renamed the chat while it was being generated
+  const nameChat = (chatId: string) => {
+    generateChatTitle(chatId)
+      .then(async (title) => {
+        if (!title) return;
+        await saveChats(
+          updateChat(latestChatsRef.current, chatId, (chat) =>
+            chat.titleSource === "manual"
+              ? {}
+              : { title, titleSource: "generated" }
+          )
+        );
+      })
+      .catch(console.error);
+  };
+
+  const renameChatTitle = async (chat: Chat, title: string) => {
+    await saveChats(
+      updateChat(state.chats || chatsData, chat.id, () => ({
+        title,
+        titleSource: "manual",
+      }))
     );
+    if (user) {
+      const { error } = await renameChat(chat.id, title);
+      if (error) toast.error(error);
+    }
+  };
 
-    let assistantContent = "";
+  // Pinning, filing and archiving leave `updatedAt` alone, so the chat keeps
+  // its place in the sidebar order
+  const placeChat = async (chatId: string, placement: ChatPlacement) => {
+    await saveChats(
+      updateChat(state.chats || chatsData, chatId, () => placement)
+    );
+  };
 
+  // Signed-in users import through the server, which also stores the chats
+  // in the conversations tables; guests parse the file locally
+  const importChats = async (file: File) => {
+    setIsImporting(true);
     try {
-      // Attempt a direct browser call when an API key is available.
-
-      // If frontend call failed and user is logged in, or no API key but user logged in
+      let chats: Chat[];
       if (user) {
-        const response = await callBackendAPI(messagesToSend);
+        const body = new FormData();
+        body.append("file", file);
+        const response = await fetch("/api/conversations/import", {
+          method: "POST",
+          body,
+        });
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error ?? "Import failed");
+        chats = data.chats;
+      } else {
+        const result = parseImportFile(await file.text());
+        if (!result.success) throw new Error(result.error);
+        chats = result.chats;
+      }
 
-        const reader = response.body?.getReader();
-        const decoder = new TextDecoder();
+      await saveChats(mergeImportedChats(state.chats || chatsData, chats));
+      toast.success(
+        `Imported ${chats.length} ${chats.length === 1 ? "chat" : "chats"}`
+      );
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Import failed");
+    } finally {
+      setIsImporting(false);
+    }
+  };
 
-        if (reader) {
-          while (true) {
-            const { done, value } = await reader.read();
-            if (done) break;
+  // Opens the chat of a search result on the branch containing the message
+  const openSearchResult = async (result: SearchResult) => {
+    const chat = chatsData.chats.find((c) => c.id === result.chatId);
+    if (!chat || isLoadingMessage) return;
 
-            const chunk = decoder.decode(value);
-            const lines = chunk.split("\n");
+    const onActivePath = getActivePath(normalizeChat(chat)).some(
+      (m) => m.id === result.messageId
+    );
+    await saveChats({
+      ...(onActivePath
+        ? chatsData
+        : updateChat(chatsData, chat.id, (normalized) => ({
+            currentLeafId: getLatestLeafId(normalized, result.messageId),
+          }))),
+      currentChatId: chat.id,
+    });
+    setScrollTargetId(result.messageId);
+    setIsSidebarOpen(false);
+  };
 
-            for (const line of lines) {
-              if (line.startsWith("data: ")) {
-                const data = line.slice(6);
-                if (data === "[DONE]") {
-                  break;
-                }
-                try {
-                  const parsed = JSON.parse(data);
-                  if (parsed.type === "content" && parsed.content) {
-                    assistantContent += parsed.content;
-                    setStreamingMessage(assistantContent);
-                  }
-                } catch (error) {
-                  console.error("Error parsing response:", error);
-                  // Ignore parsing errors
-                }
-              }
-            }
-          }
-        }
-      }
+  // Shows the branch containing `message`, continuing down its latest replies
+  const switchBranch = async (message: Message) => {
+    if (!currentChat || isLoadingMessage) return;
 
-      // Clear the in-progress streaming message before finalizing
-      setStreamingMessage("");
+    await saveChats(
+      updateChat(state.chats || chatsData, currentChat.id, (chat) => ({
+        currentLeafId: getLatestLeafId(chat, message.id),
+      }))
+    );
+  };
 
-      // Add assistant message
-      const assistantMessage: Message = {
-        id: uuidv4(),
-        role: "assistant",
-        content: assistantContent,
-        timestamp: new Date(),
-        model: selectedModel,
-      };
+  const saveSystemPrompt = async (systemPrompt: string) => {
+    if (!currentChat) return;
 
-      // Use the newChatsData which we know includes the user message
-      const finalUpdatedChats = newChatsData.chats.map((chat: Chat) =>
-        chat.id === currentChat!.id
-          ? {
-              ...chat,
-              messages: [...chat.messages, assistantMessage], // Add assistant message to existing messages (including user message)
-              updatedAt: new Date(),
-              title:
-                chat.messages.length === 1
-                  ? chat.messages[0].content.substring(0, 50) +
-                    (chat.messages[0].content.length > 50 ? "..." : "")
-                  : chat.title,
-            }
-          : chat
-      );
+    await saveChats(
+      updateChat(state.chats || chatsData, currentChat.id, () => ({
+        systemPrompt: systemPrompt || undefined,
+      }))
+    );
+  };
 
-      newChatsData = {
-        ...newChatsData,
-        chats: finalUpdatedChats,
-      };
+  const saveParameters = async (parameters: GenerationParameters) => {
+    if (!currentChat) return;
 
-      await saveChats(newChatsData);
-    } catch (error) {
-      console.error("Error sending message:", error);
-      // If we deducted a credit but failed, we should ideally refund it
-      // For now, we'll just show the error
-    } finally {
-      setIsLoadingMessage(false);
-      setStreamingMessage("");
-      // Trigger input focus after all state updates complete
-      setShouldFocusInput(true);
+    await saveChats(
+      updateChat(state.chats || chatsData, currentChat.id, () => ({
+        parameters,
+      }))
+    );
+  };
+
+  const savePersonaPreset = async (preset: PersonaPreset) => {
+    await updateState("personaPresets", [...personaPresets, preset]);
+  };
+
+  const deletePersonaPreset = async (presetId: string) => {
+    await updateState(
+      "personaPresets",
+      personaPresets.filter((preset) => preset.id !== presetId)
+    );
+  };
+
+  const stopGeneration = () => {
+    // Closing the connection alone no longer stops the server, which keeps
+    // generating so that a dropped connection can resume
+    if (generationIdRef.current) {
+      fetch(`/api/chat/${generationIdRef.current}`, { method: "DELETE" }).catch(
+        console.error
+      );
     }
+    abortControllerRef.current?.abort();
   };
 
   const handleKeyPress = (e: React.KeyboardEvent) => {
@@ -790,14 +1288,14 @@ export default function ChatPage() {
       `}
       >
         {user && (
-          <div className="px-4 mx-auto mt-4">
+          <Link href="/usage" className="px-4 mx-auto mt-4" title="View usage">
             <UsageBadge
               featureSlug="chat-messages"
               label="AI Chat Requests:"
               labelAfter="used"
               creditCalculation="used"
             />
-          </div>
+          </Link>
         )}
         <div className="p-3 md:p-4 border-b">
           {/* Mobile header with close button */}
@@ -825,6 +1323,38 @@ export default function ChatPage() {
             New Chat
           </Button>
 
+          <Button asChild className="w-full justify-start mb-3" variant="ghost">
+            <Link href="/settings">
+              <KeyRoundIcon className="h-4 w-4 mr-2" />
+              API keys
+            </Link>
+          </Button>
+
+          <div className="flex gap-1 mb-3">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="flex-1 justify-start"
+              onClick={() => importInputRef.current?.click()}
+              disabled={isImporting}
+            >
+              <UploadIcon className="h-4 w-4 mr-2" />
+              Import
+            </Button>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept=".json,.jsonl,application/json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = "";
+                if (file) importChats(file);
+              }}
+            />
+            <ExportMenu chats={liveChats} name="chats" label="Export all" />
+          </div>
+
           {/* Model Selection */}
           <Card className="p-3 mb-3">
             <div className="flex items-center gap-2">
@@ -852,88 +1382,116 @@ export default function ChatPage() {
                     </Button>
                   </DropdownMenuTrigger>
                   <DropdownMenuContent align="start" className="w-56">
-                    {AVAILABLE_MODELS.map((model) => (
-                      <DropdownMenuItem
-                        key={model.id}
-                        onClick={() => handleModelChange(model.id)}
-                        className="flex flex-col items-start gap-1 p-3"
-                      >
-                        <div className="flex items-center gap-2 w-full">
-                          <span className="font-medium">{model.name}</span>
-                          {model.id === selectedModel && (
-                            <Badge variant="secondary" className="text-xs">
-                              Current
-                            </Badge>
-                          )}
-                        </div>
-                        <span className="text-xs text-muted-foreground">
-                          {model.description}
-                        </span>
-                      </DropdownMenuItem>
-                    ))}
+                    {AVAILABLE_MODELS.map((model) => {
+                      const isLocked = modelAccess?.[model.id] === false;
+                      return (
+                        <DropdownMenuItem
+                          key={model.id}
+                          onClick={() =>
+                            isLocked
+                              ? router.push("/pricing")
+                              : handleModelChange(model.id)
+                          }
+                          className="flex flex-col items-start gap-1 p-3"
+                        >
+                          <div className="flex items-center gap-2 w-full">
+                            {isLocked && (
+                              <LockIcon className="h-3 w-3 text-muted-foreground" />
+                            )}
+                            <span
+                              className={`font-medium ${
+                                isLocked ? "text-muted-foreground" : ""
+                              }`}
+                            >
+                              {model.name}
+                            </span>
+                            {model.id === selectedModel && (
+                              <Badge variant="secondary" className="text-xs">
+                                Current
+                              </Badge>
+                            )}
+                            {isLocked && (
+                              <Link href="/pricing" className="ml-auto">
+                                <Badge className="text-xs">Upgrade</Badge>
+                              </Link>
+                            )}
+                          </div>
+                          <span className="text-xs text-muted-foreground">
+                            {model.description}
+                          </span>
+                        </DropdownMenuItem>
+                      );
+                    })}
                   </DropdownMenuContent>
                 </DropdownMenu>
               </div>
+              <GenerationSettings
+                model={
+                  AVAILABLE_MODELS.find((m) => m.id === selectedModel) ||
+                  AVAILABLE_MODELS[0]
+                }
+                value={currentChat?.parameters}
+                onChange={saveParameters}
+                disabled={!currentChat}
+              />
             </div>
           </Card>
         </div>
 
         <div className="flex-1 overflow-y-auto p-3 md:p-4 space-y-2">
-          {chatsData.chats.map((chat) => (
-            <Card
-              key={chat.id}
-              className={`cursor-pointer transition-colors ${
-                chat.id === chatsData.currentChatId
-                  ? "bg-accent"
-                  : "hover:bg-muted"
-              }`}
-              onClick={() => {
-                selectChat(chat.id);
+          <ChatSearch
+            chats={liveChats}
+            serverSearch={!!user}
+            onSelect={openSearchResult}
+          >
+            <ChatList
+              data={chatsData}
+              onSelect={(chatId) => {
+                selectChat(chatId);
                 setIsSidebarOpen(false);
               }}
-            >
-              <CardContent className="p-3">
-                <div className="flex items-center justify-between">
-                  <div className="flex-1 min-w-0">
-                    <p className="text-sm font-medium truncate">{chat.title}</p>
-                    <p className="text-xs text-muted-foreground">
-                      {chat.messages.length} messages
-                    </p>
-                  </div>
-                  <Button
-                    size="sm"
-                    variant="ghost"
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      deleteChat(chat.id);
-                    }}
-                  >
-                    <TrashIcon className="h-3 w-3" />
-                  </Button>
-                </div>
-              </CardContent>
-            </Card>
-          ))}
+              onRename={renameChatTitle}
+              onDelete={deleteChat}
+              onRestore={restoreChat}
+              onPurge={purgeChatsForGood}
+              onPlace={placeChat}
+              onCreateFolder={(name) =>
+                saveChats(createFolder(state.chats || chatsData, name))
+              }
+              onRenameFolder={(folderId, name) =>
+                saveChats(
+                  renameFolder(state.chats || chatsData, folderId, name)
+                )
+              }
+              onDeleteFolder={(folderId) =>
+                saveChats(deleteFolder(state.chats || chatsData, folderId))
+              }
+            />
+          </ChatSearch>
         </div>
       </div>
 
       {/* Main Chat Area */}
       <div className="flex-1 flex flex-col md:ml-0">
-        {apiKeysStatus && !apiKeysStatus.openai && !apiKeysStatus.anthropic && (
-          <div className="p-2 md:p-3">
-            <Card className="border-red-300 bg-red-50 dark:bg-red-950/30">
-              <CardContent className="p-3">
-                <p className="text-sm text-red-900 dark:text-red-200">
-                  No AI provider keys detected. Set environment variables
-                  <span className="mx-1 font-mono">OPENAI_API_KEY</span>
-                  and/or
-                  <span className="mx-1 font-mono">ANTHROPIC_API_KEY</span>
-                  and restart the dev server.
-                </p>
-              </CardContent>
-            </Card>
-          </div>
-        )}
+        {apiKeysStatus &&
+          !apiKeysStatus.openai &&
+          !apiKeysStatus.anthropic &&
+          !apiKeysStatus.gemini && (
+            <div className="p-2 md:p-3">
+              <Card className="border-red-300 bg-red-50 dark:bg-red-950/30">
+                <CardContent className="p-3">
+                  <p className="text-sm text-red-900 dark:text-red-200">
+                    No AI provider keys detected. Set environment variables
+                    <span className="mx-1 font-mono">OPENAI_API_KEY</span>,
+                    <span className="mx-1 font-mono">ANTHROPIC_API_KEY</span>
+                    and/or
+                    <span className="mx-1 font-mono">GEMINI_API_KEY</span>
+                    and restart the dev server.
+                  </p>
+                </CardContent>
+              </Card>
+            </div>
+          )}
         {currentChat ? (
           <>
             {/* Chat Header */}
@@ -952,90 +1510,222 @@ export default function ChatPage() {
                     {currentChat.title}
                   </CardTitle>
                   <p className="text-sm text-muted-foreground">
-                    {currentChat.messages.length} messages
+                    {activeMessages.length} messages
                   </p>
                 </div>
+                <ExportMenu chats={[currentChat]} name={currentChat.title} />
+                {user && (
+                  <ShareMenu
+                    chat={currentChat}
+                    messages={activeMessages}
+                    disabled={isLoadingMessage}
+                  />
+                )}
+                <Button
+                  variant={currentChat.systemPrompt ? "secondary" : "ghost"}
+                  size="sm"
+                  onClick={() => setIsSystemPromptOpen((open) => !open)}
+                  title="System prompt"
+                >
+                  <SlidersHorizontalIcon className="h-4 w-4" />
+                </Button>
               </div>
             </div>
 
+            {isSystemPromptOpen && (
+              <SystemPromptEditor
+                key={currentChat.id}
+                value={currentChat.systemPrompt || ""}
+                presets={personaPresets}
+                onSave={saveSystemPrompt}
+                onSavePreset={savePersonaPreset}
+                onDeletePreset={deletePersonaPreset}
+                onClose={() => setIsSystemPromptOpen(false)}
+              />
+            )}
+
             {/* Messages */}
             <div className="flex-1 overflow-y-auto p-2 md:p-4 space-y-3 md:space-y-4">
-              {currentChat.messages.map((message) => (
-                <div
-                  key={message.id}
-                  className={`flex ${
-                    message.role === "user" ? "justify-end" : "justify-start"
-                  }`}
-                >
-                  <Card
-                    className={`max-w-[90%] md:max-w-[80%] ${
-                      message.role === "user"
-                        ? "bg-primary text-primary-foreground"
-                        : "bg-muted"
+              {activeMessages.map((message, messageIndex) => {
+                const siblings = getSiblings(currentChat, message);
+                const isLastMessage =
+                  messageIndex === activeMessages.length - 1;
+                return (
+                  <div
+                    key={message.id}
+                    id={`message-${message.id}`}
+                    className={`flex ${
+                      message.role === "user" ? "justify-end" : "justify-start"
                     }`}
                   >
-                    <CardContent className="p-2 md:p-3">
-                      <div className="flex items-start gap-2">
-                        <div className="flex-1">
-                          {/* Show attachments if present */}
-                          {message.attachments &&
-                            message.attachments.length > 0 && (
-                              <div className="mb-2 space-y-2">
-                                {message.attachments.map((attachment) => (
-                                  <div
-                                    key={attachment.id}
-                                    className="flex items-center gap-2"
+                    <Card
+                      className={`max-w-[90%] md:max-w-[80%] ${
+                        scrollTargetId === message.id
+                          ? "ring-2 ring-yellow-400"
+                          : ""
+                      } ${
+                        message.role === "user"
+                          ? "bg-primary text-primary-foreground"
+                          : "bg-muted"
+                      }`}
+                    >
+                      <CardContent className="p-2 md:p-3">
+                        <div className="flex items-start gap-2">
+                          <div className="flex-1">
+                            {/* Show attachments if present */}
+                            {message.attachments &&
+                              message.attachments.length > 0 && (
+                                <div className="mb-2 space-y-2">
+                                  {message.attachments.map((attachment) => (
+                                    <div
+                                      key={attachment.id}
+                                      className="flex items-center gap-2"
+                                    >
+                                      {attachment.type === "image" ? (
+                                        <div className="flex items-center gap-2">
+                                          <ImageIcon className="h-4 w-4 opacity-70" />
+                                          <img
+                                            src={attachment.data}
+                                            alt={attachment.name}
+                                            className="max-w-[200px] max-h-[200px] object-contain rounded border"
+                                          />
+                                        </div>
+                                      ) : (
+                                        <div className="flex items-center gap-2 p-2 rounded border bg-background/50">
+                                          <FileIcon className="h-4 w-4 opacity-70" />
+                                          <span className="text-xs opacity-70">
+                                            {attachment.name}
+                                          </span>
+                                        </div>
+                                      )}
+                                    </div>
+                                  ))}
+                                </div>
+                              )}
+
+                            {editingMessageId === message.id ? (
+                              <div className="space-y-2">
+                                <textarea
+                                  value={editingContent}
+                                  onChange={(e) =>
+                                    setEditingContent(e.target.value)
+                                  }
+                                  className="w-full min-w-[240px] rounded border bg-background p-2 text-sm text-foreground"
+                                  rows={3}
+                                  autoFocus
+                                />
+                                <div className="flex justify-end gap-2">
+                                  <Button
+                                    size="sm"
+                                    variant="secondary"
+                                    onClick={() => setEditingMessageId(null)}
                                   >
-                                    {attachment.type === "image" ? (
-                                      <div className="flex items-center gap-2">
-                                        <ImageIcon className="h-4 w-4 opacity-70" />
-                                        <img
-                                          src={attachment.data}
-                                          alt={attachment.name}
-                                          className="max-w-[200px] max-h-[200px] object-contain rounded border"
-                                        />
-                                      </div>
-                                    ) : (
-                                      <div className="flex items-center gap-2 p-2 rounded border bg-background/50">
-                                        <FileIcon className="h-4 w-4 opacity-70" />
-                                        <span className="text-xs opacity-70">
-                                          {attachment.name}
-                                        </span>
-                                      </div>
-                                    )}
-                                  </div>
-                                ))}
+                                    Cancel
+                                  </Button>
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    className="text-foreground"
+                                    onClick={() => submitEdit(message)}
+                                    disabled={!editingContent.trim()}
+                                  >
+                                    Send
+                                  </Button>
+                                </div>
                               </div>
+                            ) : (
+                              <MessageRenderer
+                                content={message.content}
+                                isUser={message.role === "user"}
+                                toolCalls={message.toolCalls}
+                              />
                             )}
-
-                          <MessageRenderer
-                            content={message.content}
-                            isUser={message.role === "user"}
-                          />
-                          <div className="flex items-center gap-2 mt-2 flex-wrap">
-                            <p className="text-xs opacity-70">
-                              {new Date(message.timestamp).toLocaleTimeString()}
-                            </p>
-                            {message.model && (
-                              <Badge variant="secondary" className="text-xs">
-                                {message.model}
-                              </Badge>
-                            )}
+                            <div className="flex items-center gap-2 mt-2 flex-wrap">
+                              <p className="text-xs opacity-70">
+                                {new Date(
+                                  message.timestamp
+                                ).toLocaleTimeString()}
+                              </p>
+                              {message.model && (
+                                <Badge variant="secondary" className="text-xs">
+                                  {message.model}
+                                </Badge>
+                              )}
+                              {message.stopped && (
+                                <Badge variant="outline" className="text-xs">
+                                  Stopped
+                                </Badge>
+                              )}
+                              {message.contextCompaction && (
+                                <Badge
+                                  variant="outline"
+                                  className="text-xs"
+                                  title={`${message.contextCompaction.omitted} earlier messages were ${
+                                    message.contextCompaction.summarized
+                                      ? "summarized"
+                                      : "left out"
+                                  } to fit the model's context window`}
+                                >
+                                  History compacted
+                                </Badge>
+                              )}
+                              {siblings.length > 1 && (
+                                <BranchSwitcher
+                                  index={siblings.findIndex(
+                                    (m) => m.id === message.id
+                                  )}
+                                  total={siblings.length}
+                                  onSelect={(index) =>
+                                    switchBranch(siblings[index])
+                                  }
+                                  disabled={isLoadingMessage}
+                                />
+                              )}
+                              {message.role === "user" &&
+                                editingMessageId !== message.id && (
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    className="h-5 w-5 p-0 opacity-70"
+                                    disabled={isLoadingMessage}
+                                    onClick={() => {
+                                      setEditingMessageId(message.id);
+                                      setEditingContent(message.content);
+                                    }}
+                                    title="Edit message"
+                                  >
+                                    <PencilIcon className="h-3 w-3" />
+                                  </Button>
+                                )}
+                              {message.role === "assistant" &&
+                                isLastMessage && (
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    className="h-5 w-5 p-0 opacity-70"
+                                    disabled={isLoadingMessage}
+                                    onClick={() => regenerateResponse(message)}
+                                    title="Regenerate response"
+                                  >
+                                    <RefreshCwIcon className="h-3 w-3" />
+                                  </Button>
+                                )}
+                            </div>
                           </div>
                         </div>
-                      </div>
-                    </CardContent>
-                  </Card>
-                </div>
-              ))}
+                      </CardContent>
+                    </Card>
+                  </div>
+                );
+              })}
 
               {/* Loading Animation - shown after user sends message until streaming starts */}
               {isLoadingMessage &&
                 !streamingMessage &&
+                streamingToolCalls.length === 0 &&
                 currentChat &&
-                currentChat.messages.length > 0 &&
-                currentChat.messages[currentChat.messages.length - 1].role ===
-                  "user" && (
+                activeMessages.length > 0 &&
+                activeMessages[activeMessages.length - 1].role === "user" && (
                   <div className="flex justify-start">
                     <Card className="max-w-[90%] md:max-w-[80%] bg-muted">
                       <CardContent className="p-2 md:p-3">
@@ -1052,19 +1742,27 @@ export default function ChatPage() {
                 )}
 
               {/* Streaming Message */}
-              {streamingMessage && (
+              {(streamingMessage || streamingToolCalls.length > 0) && (
                 <div className="flex justify-start">
                   <Card className="max-w-[90%] md:max-w-[80%] bg-muted">
                     <CardContent className="p-2 md:p-3">
                       <MessageRenderer
                         content={streamingMessage}
                         isStreaming={true}
+                        toolCalls={streamingToolCalls}
                       />
                     </CardContent>
                   </Card>
                 </div>
               )}
 
+              {chatError && !isLoadingMessage && (
+                <ChatErrorNotice
+                  error={chatError}
+                  onDismiss={() => setChatError(null)}
+                />
+              )}
+
               <div ref={messagesEndRef} />
             </div>
 
@@ -1146,16 +1844,24 @@ export default function ChatPage() {
                   className="flex-1 text-base md:text-sm"
                   ref={inputRef}
                 />
-                <Button
-                  onClick={sendMessage}
-                  disabled={
-                    isLoadingMessage ||
-                    (!inputMessage.trim() && attachments.length === 0)
-                  }
-                  className="px-3 md:px-4"
-                >
-                  <SendIcon className="h-4 w-4" />
-                </Button>
+                {isLoadingMessage ? (
+                  <Button
+                    onClick={stopGeneration}
+                    variant="outline"
+                    className="px-3 md:px-4"
+                    title="Stop generating"
+                  >
+                    <SquareIcon className="h-4 w-4" />
+                  </Button>
+                ) : (
+                  <Button
+                    onClick={sendMessage}
+                    disabled={!inputMessage.trim() && attachments.length === 0}
+                    className="px-3 md:px-4"
+                  >
+                    <SendIcon className="h-4 w-4" />
+                  </Button>
+                )}
               </div>
             </div>
           </>
@@ -0,0 +1,42 @@
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { ArrowLeftIcon } from "lucide-react";
+import { createClient } from "@/lib/supabase/server";
+import { listApiKeys } from "@/app/actions/api-keys";
+import { ApiKeysForm } from "@/components/api-keys-form";
+
+export default async function SettingsPage() {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return redirect("/auth/login");
+  }
+
+  const keys = await listApiKeys();
+
+  return (
+    <div className="h-full overflow-y-auto">
+      <div className="max-w-2xl mx-auto p-4 md:p-8 space-y-6">
+        <Link
+          href="/chat"
+          className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground"
+        >
+          <ArrowLeftIcon className="h-4 w-4" />
+          Back to chat
+        </Link>
+        <div>
+          <h1 className="text-2xl font-semibold">Settings</h1>
+          <p className="text-sm text-muted-foreground">
+            Use your own provider API keys. Requests to a provider you have a
+            key for are sent with your key and do not use your plan&apos;s
+            credits.
+          </p>
+        </div>
+        <ApiKeysForm keys={keys} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { ArrowLeftIcon } from "lucide-react";
+import { createClient } from "@/lib/supabase/server";
+import { getDefaultQuota } from "@/lib/metering";
+import { UsageDashboard } from "@/components/usage-dashboard";
+
+export default async function UsagePage() {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return redirect("/auth/login");
+  }
+
+  return (
+    <div className="h-full overflow-y-auto">
+      <div className="max-w-3xl mx-auto p-4 md:p-8 space-y-6">
+        <Link
+          href="/chat"
+          className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground"
+        >
+          <ArrowLeftIcon className="h-4 w-4" />
+          Back to chat
+        </Link>
+        <div>
+          <h1 className="text-2xl font-semibold">Usage</h1>
+          <p className="text-sm text-muted-foreground">
+            Messages and tokens per day by model, and what is left of your plan
+            for this billing period.
+          </p>
+        </div>
+        <UsageDashboard quota={getDefaultQuota()} />
+      </div>
+    </div>
+  );
+}
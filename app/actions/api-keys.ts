@@ -0,0 +1,67 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+import { createClient } from "@/lib/supabase/server";
+import {
+  deleteUserApiKey,
+  listUserApiKeys,
+  saveUserApiKey,
+} from "@/lib/api-key-vault";
+import type { ProviderId } from "@/lib/providers/types";
+
+export type ApiKeySummary = {
+  provider: ProviderId;
+  hint: string;
+  updatedAt: string;
+};
+
+const providerSchema = z.enum(["openai", "anthropic", "gemini"]);
+const apiKeySchema = z.string().trim().min(8).max(512);
+
+async function requireUserId() {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) throw new Error("Unauthorized");
+  return user.id;
+}
+
+/** The signed-in user's stored keys, without the keys themselves. */
+export async function listApiKeys(): Promise<ApiKeySummary[]> {
+  const keys = await listUserApiKeys(await requireUserId());
+  return keys.map((key) => ({
+    ...key,
+    updatedAt: key.updatedAt.toISOString(),
+  }));
+}
+
+export async function saveApiKey(
+  provider: ProviderId,
+  apiKey: string
+): Promise<{ error?: string }> {
+  const userId = await requireUserId();
+
+  const parsedProvider = providerSchema.safeParse(provider);
+  const parsedKey = apiKeySchema.safeParse(apiKey);
+  if (!parsedProvider.success || !parsedKey.success) {
+    return { error: "Enter a valid API key" };
+  }
+
+  try {
+    await saveUserApiKey(userId, parsedProvider.data, parsedKey.data);
+  } catch (error) {
+    console.error("Failed to save API key:", error);
+    return { error: "Could not save the key" };
+  }
+
+  revalidatePath("/settings");
+  return {};
+}
+
+export async function deleteApiKey(provider: ProviderId): Promise<void> {
+  const userId = await requireUserId();
+  await deleteUserApiKey(userId, providerSchema.parse(provider));
+  revalidatePath("/settings");
+}
@@ -0,0 +1,95 @@
+"use server";
+
+import { createClient } from "@/lib/supabase/server";
+import { generateTitle } from "@/lib/chat/title";
+import {
+  getConversation,
+  listMessages,
+  setConversationTitle,
+} from "@/lib/conversations";
+import { getPlanTier } from "@/lib/model-access";
+import { checkRateLimit } from "@/lib/rate-limit";
+
+const MAX_TITLE_LENGTH = 100;
+
+/**
+ * Names a stored chat from its first exchange and saves the title. Titles
+ * run on the server's key without metering, so the exchange is read from
+ * the conversation rather than taken from the caller, only chats with one
+ * finished exchange and no title yet are named, and the call counts
+ * against the chat rate limit. Returns the title, or null when none was
+ * generated; the caller applies it unless the user renamed the chat.
+ */
+export async function generateChatTitle(
+  chatId: string
+): Promise<string | null> {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) return null;
+
+  try {
+    const conversation = await getConversation(supabase, chatId);
+    if (!conversation || conversation.titleSource !== "default") return null;
+
+    const messages = await listMessages(supabase, chatId);
+    const [userMessage, reply] = messages;
+    if (
+      messages.length !== 2 ||
+      userMessage.role !== "user" ||
+      reply.role !== "assistant" ||
+      reply.parentId !== userMessage.id ||
+      reply.stopped ||
+      !reply.content
+    ) {
+      return null;
+    }
+
+    const rateLimit = await checkRateLimit(user.id, await getPlanTier(user.id));
+    if (!rateLimit.ok) return null;
+
+    let title: string | null;
+    try {
+      title = await generateTitle({
+        user: userMessage.content,
+        assistant: reply.content,
+      });
+    } finally {
+      await rateLimit.release();
+    }
+    if (!title) return null;
+
+    await setConversationTitle(supabase, chatId, title, "generated");
+    return title;
+  } catch (error) {
+    console.error("Failed to generate chat title:", error);
+    return null;
+  }
+}
+
+/** Renames a chat; manual titles are never replaced by generated ones. */
+export async function renameChat(
+  chatId: string,
+  title: string
+): Promise<{ error?: string }> {
+  const trimmed = title.trim();
+  if (!trimmed) return { error: "Enter a title" };
+  if (trimmed.length > MAX_TITLE_LENGTH) {
+    return { error: `Titles can be at most ${MAX_TITLE_LENGTH} characters` };
+  }
+
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) return { error: "You must be signed in" };
+
+  try {
+    await setConversationTitle(supabase, chatId, trimmed, "manual");
+    return {};
+  } catch (error) {
+    console.error("Failed to rename chat:", error);
+    return { error: "Could not rename the chat" };
+  }
+}
@@ -0,0 +1,17 @@
+"use server";
+
+import { createClient } from "@/lib/supabase/server";
+import { getModelAccess as getModelAccessForUser } from "@/lib/model-access";
+
+export type ModelAccess = Record<string, boolean>;
+
+/** Which models the signed-in user's plan unlocks, keyed by model id. */
+export async function getModelAccess(): Promise<ModelAccess> {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) return {};
+
+  return getModelAccessForUser(user.id);
+}
@@ -0,0 +1,85 @@
+"use server";
+
+import { z } from "zod";
+import { createClient } from "@/lib/supabase/server";
+import { formatIssues, storedMessageSchema } from "@/lib/chat/schema";
+import type { Message } from "@/lib/chat/types";
+import {
+  createShare,
+  getActiveShare,
+  revokeShares,
+  type ChatShare,
+} from "@/lib/shares";
+
+const shareSchema = z.object({
+  chatId: z.string().uuid(),
+  title: z.string().min(1),
+  messages: z.array(storedMessageSchema).min(1),
+});
+
+/** The chat's live share link, or null when it is not shared. */
+export async function getChatShare(chatId: string): Promise<ChatShare | null> {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) return null;
+
+  try {
+    return await getActiveShare(supabase, chatId);
+  } catch (error) {
+    console.error("Failed to load chat share:", error);
+    return null;
+  }
+}
+
+/**
+ * Publishes `messages`, the branch the owner is looking at, under a new
+ * link. An earlier link of the chat stops working.
+ */
+export async function shareChat(chat: {
+  chatId: string;
+  title: string;
+  messages: Message[];
+}): Promise<{ share?: ChatShare; error?: string }> {
+  const parsed = shareSchema.safeParse(chat);
+  if (!parsed.success) return { error: formatIssues(parsed.error) };
+
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) return { error: "You must be signed in" };
+
+  try {
+    const share = await createShare(supabase, {
+      id: parsed.data.chatId,
+      title: parsed.data.title,
+      // zod infers `unknown` tool fields as optional; see lib/chat/import.ts
+      messages: parsed.data.messages as Message[],
+    });
+    return { share };
+  } catch (error) {
+    console.error("Failed to share chat:", error);
+    return { error: "Could not share the chat" };
+  }
+}
+
+/** Turns off every share link of the chat. */
+export async function revokeChatShare(
+  chatId: string
+): Promise<{ error?: string }> {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) return { error: "You must be signed in" };
+
+  try {
+    await revokeShares(supabase, chatId);
+    return {};
+  } catch (error) {
+    console.error("Failed to revoke chat share:", error);
+    return { error: "Could not revoke the link" };
+  }
+}
@@ -0,0 +1,53 @@
+"use server";
+
+import { z } from "zod";
+import { createClient } from "@/lib/supabase/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { deleteConversations } from "@/lib/conversations";
+import { revokeShares } from "@/lib/shares";
+
+const purgeSchema = z.object({
+  chatIds: z.array(z.string().uuid()),
+  storagePaths: z.array(z.string()),
+});
+
+/**
+ * Deletes what the server keeps of chats purged from the trash: their
+ * conversation rows, their share links and the attachments in the "files"
+ * bucket. The chats themselves are removed from SyncProvider by the caller.
+ */
+export async function purgeDeletedChats(purge: {
+  chatIds: string[];
+  storagePaths: string[];
+}): Promise<{ error?: string }> {
+  const parsed = purgeSchema.safeParse(purge);
+  if (!parsed.success) return { error: "Invalid request" };
+  const { chatIds, storagePaths } = parsed.data;
+
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) return { error: "You must be signed in" };
+
+  try {
+    await deleteConversations(supabase, chatIds);
+    await Promise.all(chatIds.map((chatId) => revokeShares(supabase, chatId)));
+
+    // Uploads live under the uploader's id, so only paths in the caller's
+    // own folder are removed
+    const ownPaths = storagePaths.filter(
+      (path) => path.startsWith(`${user.id}/`) && !path.includes("..")
+    );
+    if (ownPaths.length > 0) {
+      const { error } = await createAdminClient()
+        .storage.from("files")
+        .remove(ownPaths);
+      if (error) throw error;
+    }
+    return {};
+  } catch (error) {
+    console.error("Failed to purge deleted chats:", error);
+    return { error: "Could not delete the chats' files" };
+  }
+}
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { createClient } from "@/lib/supabase/server";
+import {
+  getConversation,
+  insertMessages,
+  listMessages,
+} from "@/lib/conversations";
+import { formatIssues, storedMessageSchema } from "@/lib/chat/schema";
+import type { Message } from "@/lib/chat/types";
+
+const bodySchema = z.object({
+  messages: z.array(storedMessageSchema),
+});
+
+// Conversation ids are uuids; anything else cannot exist and is answered
+// with 404 before it reaches Postgres, which would reject it with an error
+const idSchema = z.string().uuid();
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (!idSchema.safeParse(id).success) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  try {
+    if (!(await getConversation(supabase, id))) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+
+    const messages = await listMessages(supabase, id);
+    return NextResponse.json({ messages });
+  } catch (error) {
+    console.error("Error listing messages:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (!idSchema.safeParse(id).success) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  let json: unknown;
+  try {
+    json = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Request body must be valid JSON" },
+      { status: 400 }
+    );
+  }
+
+  const body = bodySchema.safeParse(json);
+  if (!body.success) {
+    return NextResponse.json(
+      { error: formatIssues(body.error) },
+      { status: 400 }
+    );
+  }
+  // zod infers `unknown` tool fields as optional; see lib/chat/import.ts
+  const messages = body.data.messages as Message[];
+
+  try {
+    if (!(await getConversation(supabase, id))) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+
+    await insertMessages(supabase, id, messages);
+    return NextResponse.json({ success: true }, { status: 201 });
+  } catch (error) {
+    console.error("Error saving messages:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { ensureConversation, insertMessages } from "@/lib/conversations";
+import { parseImportFile } from "@/lib/chat/import";
+
+const MAX_FILE_SIZE = 20 * 1024 * 1024;
+
+// POST /api/conversations/import with a `file` form field holding a JSON
+// export or fine-tuning JSONL. Responds with the parsed chats, which are
+// also stored in the conversations tables, for the client to merge into
+// its chats.
+export async function POST(request: NextRequest) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const file = (await request.formData()).get("file");
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: "File is required" }, { status: 400 });
+    }
+    if (file.size > MAX_FILE_SIZE) {
+      return NextResponse.json(
+        { error: "File is larger than 20 MB" },
+        { status: 400 }
+      );
+    }
+
+    const result = parseImportFile(await file.text());
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    for (const chat of result.chats) {
+      await ensureConversation(supabase, { id: chat.id, title: chat.title });
+      await insertMessages(supabase, chat.id, chat.messages);
+    }
+
+    return NextResponse.json({ chats: result.chats }, { status: 201 });
+  } catch (error) {
+    console.error("Error importing conversations:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { createClient } from "@/lib/supabase/server";
+import {
+  ensureConversation,
+  getConversation,
+  listConversations,
+} from "@/lib/conversations";
+import { formatIssues } from "@/lib/chat/schema";
+
+const bodySchema = z.object({
+  // Ids are normally chosen by the client so that rows match its chats
+  id: z
+    .string()
+    .uuid()
+    .default(() => crypto.randomUUID()),
+  title: z.string().optional(),
+});
+
+export async function GET() {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const conversations = await listConversations(supabase);
+    return NextResponse.json({ conversations });
+  } catch (error) {
+    console.error("Error listing conversations:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  let json: unknown;
+  try {
+    json = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Request body must be valid JSON" },
+      { status: 400 }
+    );
+  }
+
+  const body = bodySchema.safeParse(json);
+  if (!body.success) {
+    return NextResponse.json(
+      { error: formatIssues(body.error) },
+      { status: 400 }
+    );
+  }
+  const { id, title } = body.data;
+
+  try {
+    await ensureConversation(supabase, { id, title });
+    const conversation = await getConversation(supabase, id);
+
+    return NextResponse.json({ conversation }, { status: 201 });
+  } catch (error) {
+    console.error("Error creating conversation:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
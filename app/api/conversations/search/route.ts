@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { searchMessages } from "@/lib/conversations";
+
+const MAX_QUERY_LENGTH = 200;
+
+// GET /api/conversations/search?q=... searches the content of every message
+// of the signed-in user's conversations
+export async function GET(request: NextRequest) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const query = request.nextUrl.searchParams.get("q")?.trim() ?? "";
+  if (!query || query.length > MAX_QUERY_LENGTH) {
+    return NextResponse.json(
+      { error: `Query must be 1 to ${MAX_QUERY_LENGTH} characters` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const results = await searchMessages(supabase, query);
+    return NextResponse.json({ results });
+  } catch (error) {
+    console.error("Error searching messages:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { createClient } from "@/lib/supabase/server";
+import { formatIssues } from "@/lib/chat/schema";
+import { listUsageEvents, toUsageCsv } from "@/lib/usage";
+
+// ?from=2026-10-01&to=2026-11-01&model=gpt-4o&limit=100. Dates may also be
+// full ISO timestamps; `to` is exclusive. `format=csv` downloads the events.
+const querySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  model: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(5000).default(500),
+  format: z.enum(["json", "csv"]).default("json"),
+});
+
+export async function GET(request: NextRequest) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const query = querySchema.safeParse(
+    Object.fromEntries(request.nextUrl.searchParams)
+  );
+  if (!query.success) {
+    return NextResponse.json(
+      { error: formatIssues(query.error) },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const events = await listUsageEvents(supabase, query.data);
+
+    if (query.data.format === "csv") {
+      return new Response(toUsageCsv(events), {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": 'attachment; filename="usage.csv"',
+        },
+      });
+    }
+
+    const totals = {
+      generations: events.length,
+      inputTokens: 0,
+      outputTokens: 0,
+      totalTokens: 0,
+      costEstimate: 0,
+    };
+    for (const event of events) {
+      totals.inputTokens += event.inputTokens;
+      totals.outputTokens += event.outputTokens;
+      totals.totalTokens += event.totalTokens;
+      totals.costEstimate += event.costEstimate ?? 0;
+    }
+
+    return NextResponse.json({ events, totals });
+  } catch (error) {
+    console.error("Error listing usage events:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,123 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { FileIcon } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { MessageRenderer } from "@/components/message-renderer";
+import { getSharedChat } from "@/lib/shares";
+
+// Revoking a link must take effect immediately, and the signed attachment
+// URLs expire, so the page is rendered on every request
+export const dynamic = "force-dynamic";
+
+interface SharePageProps {
+  params: Promise<{ slug: string }>;
+}
+
+export async function generateMetadata({
+  params,
+}: SharePageProps): Promise<Metadata> {
+  const { slug } = await params;
+  const chat = await getSharedChat(slug);
+  return {
+    title: chat ? chat.title : "Shared chat",
+    robots: { index: false },
+  };
+}
+
+export default async function SharePage({ params }: SharePageProps) {
+  const { slug } = await params;
+  const chat = await getSharedChat(slug);
+
+  if (!chat) {
+    notFound();
+  }
+
+  return (
+    <div className="min-h-screen">
+      <div className="max-w-3xl mx-auto p-4 md:p-8 space-y-6">
+        <div>
+          <h1 className="text-2xl font-semibold">{chat.title}</h1>
+          <p className="text-sm text-muted-foreground">
+            Shared on {chat.createdAt.toLocaleDateString()} · Read only
+          </p>
+        </div>
+
+        <div className="space-y-3 md:space-y-4">
+          {chat.messages.map((message) => (
+            <div
+              key={message.id}
+              className={`flex ${
+                message.role === "user" ? "justify-end" : "justify-start"
+              }`}
+            >
+              <Card
+                className={`max-w-[90%] md:max-w-[80%] ${
+                  message.role === "user"
+                    ? "bg-primary text-primary-foreground"
+                    : "bg-muted"
+                }`}
+              >
+                <CardContent className="p-2 md:p-3">
+                  {message.attachments && message.attachments.length > 0 && (
+                    <div className="mb-2 space-y-2">
+                      {message.attachments.map((attachment) => {
+                        const url = chat.attachmentUrls[attachment.id];
+                        return url && attachment.type === "image" ? (
+                          <img
+                            key={attachment.id}
+                            src={url}
+                            alt={attachment.name}
+                            className="max-w-[200px] max-h-[200px] object-contain rounded border"
+                          />
+                        ) : (
+                          <div
+                            key={attachment.id}
+                            className="flex items-center gap-2 p-2 rounded border bg-background/50"
+                          >
+                            <FileIcon className="h-4 w-4 opacity-70" />
+                            {url ? (
+                              <a
+                                href={url}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="text-xs underline"
+                              >
+                                {attachment.name}
+                              </a>
+                            ) : (
+                              <span className="text-xs opacity-70">
+                                {attachment.name}
+                              </span>
+                            )}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )}
+                  <MessageRenderer
+                    content={message.content}
+                    isUser={message.role === "user"}
+                    toolCalls={message.toolCalls}
+                  />
+                  {message.model && (
+                    <Badge variant="secondary" className="text-xs mt-2">
+                      {message.model}
+                    </Badge>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          ))}
+        </div>
+
+        <p className="text-center text-sm text-muted-foreground">
+          <Link href="/" className="underline">
+            Start your own chat
+          </Link>
+        </p>
+      </div>
+    </div>
+  );
+}
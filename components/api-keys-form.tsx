@@ -0,0 +1,109 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { toast } from "sonner";
+import { KeyRoundIcon, TrashIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { listProviders } from "@/lib/providers";
+import type { ProviderId } from "@/lib/providers";
+import {
+  deleteApiKey,
+  saveApiKey,
+  type ApiKeySummary,
+} from "@/app/actions/api-keys";
+
+interface ApiKeysFormProps {
+  /** Keys already stored; refreshed by the server after every change. */
+  keys: ApiKeySummary[];
+}
+
+// One row per provider. Stored keys are write-only: the browser only ever
+// sees their last characters.
+export function ApiKeysForm({ keys }: ApiKeysFormProps) {
+  const [drafts, setDrafts] = useState<Partial<Record<ProviderId, string>>>({});
+  const [isPending, startTransition] = useTransition();
+
+  const save = (provider: ProviderId) =>
+    startTransition(async () => {
+      const { error } = await saveApiKey(provider, drafts[provider] ?? "");
+      if (error) {
+        toast.error(error);
+        return;
+      }
+      setDrafts((current) => ({ ...current, [provider]: "" }));
+      toast.success("API key saved");
+    });
+
+  const remove = (provider: ProviderId) =>
+    startTransition(async () => {
+      try {
+        await deleteApiKey(provider);
+        toast.success("API key removed");
+      } catch {
+        toast.error("Could not remove the key");
+      }
+    });
+
+  return (
+    <div className="space-y-3">
+      {listProviders().map((provider) => {
+        const stored = keys.find((key) => key.provider === provider.id);
+        const draft = drafts[provider.id] ?? "";
+
+        return (
+          <Card key={provider.id}>
+            <CardContent className="p-4 space-y-3">
+              <div className="flex items-center gap-2">
+                <KeyRoundIcon className="h-4 w-4" />
+                <p className="font-medium">{provider.name}</p>
+                {stored && (
+                  <Badge variant="secondary" className="text-xs font-mono">
+                    …{stored.hint}
+                  </Badge>
+                )}
+                {stored && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="ml-auto h-7 w-7 p-0"
+                    onClick={() => remove(provider.id)}
+                    disabled={isPending}
+                    title="Remove key"
+                  >
+                    <TrashIcon className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+              <div className="flex gap-2">
+                <Input
+                  type="password"
+                  autoComplete="off"
+                  value={draft}
+                  onChange={(e) =>
+                    setDrafts((current) => ({
+                      ...current,
+                      [provider.id]: e.target.value,
+                    }))
+                  }
+                  placeholder={
+                    stored ? "Replace the stored key" : "Paste your API key"
+                  }
+                  className="flex-1 font-mono text-sm"
+                />
+                <Button
+                  onClick={() => save(provider.id)}
+                  disabled={isPending || !draft.trim()}
+                >
+                  Save
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
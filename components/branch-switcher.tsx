@@ -0,0 +1,46 @@
+import { ChevronLeftIcon, ChevronRightIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+interface BranchSwitcherProps {
+  /** Zero-based index of the branch currently shown. */
+  index: number;
+  total: number;
+  onSelect: (index: number) => void;
+  disabled?: boolean;
+}
+
+// Compact "◀ 1/3 ▶" control for flipping between sibling messages
+export function BranchSwitcher({
+  index,
+  total,
+  onSelect,
+  disabled = false,
+}: BranchSwitcherProps) {
+  return (
+    <div className="flex items-center gap-1 text-xs opacity-70">
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-5 w-5 p-0"
+        disabled={disabled || index === 0}
+        onClick={() => onSelect(index - 1)}
+        title="Previous version"
+      >
+        <ChevronLeftIcon className="h-3 w-3" />
+      </Button>
+      <span className="tabular-nums">
+        {index + 1}/{total}
+      </span>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-5 w-5 p-0"
+        disabled={disabled || index === total - 1}
+        onClick={() => onSelect(index + 1)}
+        title="Next version"
+      >
+        <ChevronRightIcon className="h-3 w-3" />
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+import Link from "next/link";
+import { XIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import type { ChatErrorBody } from "@/lib/chat/errors";
+
+interface ChatErrorNoticeProps {
+  error: ChatErrorBody;
+  onDismiss: () => void;
+}
+
+const TITLES: Partial<Record<ChatErrorBody["code"], string>> = {
+  not_entitled: "Upgrade required",
+  rate_limited: "Too many requests",
+  provider_error: "The model failed to respond",
+  model_not_supported: "Model not available",
+};
+
+// Shown in place of the assistant reply when a generation fails
+export function ChatErrorNotice({ error, onDismiss }: ChatErrorNoticeProps) {
+  return (
+    <div className="flex justify-start">
+      <Card className="max-w-[90%] md:max-w-[80%] border-red-300 bg-red-50 dark:bg-red-950/30">
+        <CardContent className="p-2 md:p-3">
+          <div className="flex items-start gap-2">
+            <div className="flex-1 text-sm text-red-900 dark:text-red-200">
+              <p className="font-medium">
+                {TITLES[error.code] ?? "Something went wrong"}
+              </p>
+              <p>{error.message}</p>
+              {error.code === "not_entitled" && (
+                <Link href="/pricing" className="underline">
+                  View plans
+                </Link>
+              )}
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 w-6 p-0 shrink-0"
+              onClick={onDismiss}
+              title="Dismiss"
+            >
+              <XIcon className="h-3 w-3" />
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,497 @@
+"use client";
+
+import { useMemo, useRef, useState } from "react";
+import {
+  ArchiveIcon,
+  ArchiveRestoreIcon,
+  ChevronDownIcon,
+  ChevronRightIcon,
+  FolderIcon,
+  FolderPlusIcon,
+  MoreHorizontalIcon,
+  PencilIcon,
+  PinIcon,
+  PinOffIcon,
+  RotateCcwIcon,
+  TrashIcon,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { groupChats } from "@/lib/chat/folders";
+import { purgeDate } from "@/lib/chat/trash";
+import { getActivePath } from "@/lib/chat/tree";
+import type { Chat, ChatsData } from "@/lib/chat/types";
+
+// Chat ids are dragged under their own type so that dropped text or files
+// are ignored
+const DRAG_TYPE = "application/x-chat-id";
+
+/** Where a dragged chat can be dropped: the pinned section or a folder. */
+type DropTarget = "pinned" | { folderId: string | null };
+
+export type ChatPlacement = Pick<Chat, "pinned" | "folderId" | "archivedAt">;
+
+interface ChatListProps {
+  data: ChatsData;
+  onSelect: (chatId: string) => void;
+  onRename: (chat: Chat, title: string) => void;
+  /** Moves a chat to the trash */
+  onDelete: (chatId: string) => void;
+  onRestore: (chatId: string) => void;
+  /** Deletes chats from the trash for good */
+  onPurge: (chatIds: string[]) => void;
+  /** Pins, files or archives a chat */
+  onPlace: (chatId: string, placement: ChatPlacement) => void;
+  onCreateFolder: (name: string) => void;
+  onRenameFolder: (folderId: string, name: string) => void;
+  onDeleteFolder: (folderId: string) => void;
+}
+
+// Text input that commits on blur; Enter blurs it and Escape cancels
+function InlineRename({
+  value,
+  onCommit,
+  onDone,
+}: {
+  value: string;
+  onCommit: (value: string) => void;
+  onDone: () => void;
+}) {
+  const [draft, setDraft] = useState(value);
+  const cancelledRef = useRef(false);
+
+  return (
+    <Input
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onClick={(e) => e.stopPropagation()}
+      onBlur={() => {
+        const trimmed = draft.trim();
+        onDone();
+        if (!cancelledRef.current && trimmed && trimmed !== value) {
+          onCommit(trimmed);
+        }
+      }}
+      onKeyDown={(e) => {
+        if (e.key === "Escape") cancelledRef.current = true;
+        if (e.key === "Enter" || e.key === "Escape") e.currentTarget.blur();
+      }}
+      maxLength={100}
+      className="h-7 text-sm"
+      autoFocus
+    />
+  );
+}
+
+const placementFor = (target: DropTarget): ChatPlacement =>
+  target === "pinned"
+    ? { pinned: true, archivedAt: null }
+    : { pinned: false, folderId: target.folderId, archivedAt: null };
+
+const targetKey = (target: DropTarget) =>
+  target === "pinned" ? "pinned" : `folder:${target.folderId}`;
+
+// Sidebar list of chats in sections: pinned, one per folder, the remaining
+// chats, the archive and the trash. Chats are dragged between sections to pin or file
+// them; each section lists its chats by last update.
+export function ChatList({
+  data,
+  onSelect,
+  onRename,
+  onDelete,
+  onRestore,
+  onPurge,
+  onPlace,
+  onCreateFolder,
+  onRenameFolder,
+  onDeleteFolder,
+}: ChatListProps) {
+  const groups = useMemo(() => groupChats(data), [data]);
+  const folders = data.folders ?? [];
+
+  // Chat or folder id being renamed, or "new-folder" while naming one
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [showArchived, setShowArchived] = useState(false);
+  const [showTrash, setShowTrash] = useState(false);
+  const [dragOver, setDragOver] = useState<string | null>(null);
+
+  const toggleFolder = (folderId: string) => {
+    setCollapsed((previous) => {
+      const next = new Set(previous);
+      if (next.has(folderId)) next.delete(folderId);
+      else next.add(folderId);
+      return next;
+    });
+  };
+
+  const dropProps = (target: DropTarget) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (!e.dataTransfer.types.includes(DRAG_TYPE)) return;
+      e.preventDefault();
+      e.dataTransfer.dropEffect = "move";
+      setDragOver(targetKey(target));
+    },
+    onDragLeave: (e: React.DragEvent) => {
+      if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+        setDragOver(null);
+      }
+    },
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      setDragOver(null);
+      const chatId = e.dataTransfer.getData(DRAG_TYPE);
+      if (chatId) onPlace(chatId, placementFor(target));
+    },
+    className: `rounded-md transition-colors ${
+      dragOver === targetKey(target) ? "bg-accent/50 ring-1 ring-ring" : ""
+    }`,
+  });
+
+  const renderChat = (chat: Chat) => (
+    <Card
+      key={chat.id}
+      draggable={editingId !== chat.id}
+      onDragStart={(e) => {
+        e.dataTransfer.setData(DRAG_TYPE, chat.id);
+        e.dataTransfer.effectAllowed = "move";
+      }}
+      onDragEnd={() => setDragOver(null)}
+      className={`cursor-pointer transition-colors ${
+        chat.id === data.currentChatId ? "bg-accent" : "hover:bg-muted"
+      }`}
+      onClick={() => onSelect(chat.id)}
+    >
+      <CardContent className="p-3">
+        <div className="flex items-center justify-between">
+          <div className="flex-1 min-w-0">
+            {editingId === chat.id ? (
+              <InlineRename
+                value={chat.title}
+                onCommit={(title) => onRename(chat, title)}
+                onDone={() => setEditingId(null)}
+              />
+            ) : (
+              <p
+                className="text-sm font-medium truncate"
+                onDoubleClick={(e) => {
+                  e.stopPropagation();
+                  setEditingId(chat.id);
+                }}
+              >
+                {chat.pinned && !chat.archivedAt && (
+                  <PinIcon className="inline h-3 w-3 mr-1 opacity-70" />
+                )}
+                {chat.title}
+              </p>
+            )}
+            <p className="text-xs text-muted-foreground">
+              {getActivePath(chat).length} messages
+            </p>
+          </div>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={(e) => {
+              e.stopPropagation();
+              setEditingId(chat.id);
+            }}
+            title="Rename chat"
+          >
+            <PencilIcon className="h-3 w-3" />
+          </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={(e) => e.stopPropagation()}
+                title="More actions"
+              >
+                <MoreHorizontalIcon className="h-3 w-3" />
+              </Button>
+            </DropdownMenuTrigger>
+            {/* The menu is portalled, but its clicks still bubble to the card */}
+            <DropdownMenuContent
+              align="end"
+              onClick={(e) => e.stopPropagation()}
+            >
+              {!chat.archivedAt && (
+                <DropdownMenuItem
+                  onClick={() => onPlace(chat.id, { pinned: !chat.pinned })}
+                >
+                  {chat.pinned ? <PinOffIcon /> : <PinIcon />}
+                  {chat.pinned ? "Unpin" : "Pin"}
+                </DropdownMenuItem>
+              )}
+              {folders.length > 0 && (
+                <DropdownMenuSub>
+                  <DropdownMenuSubTrigger>
+                    <FolderIcon className="h-4 w-4 mr-2" />
+                    Move to folder
+                  </DropdownMenuSubTrigger>
+                  <DropdownMenuSubContent>
+                    {folders.map((folder) => (
+                      <DropdownMenuItem
+                        key={folder.id}
+                        disabled={chat.folderId === folder.id}
+                        onClick={() =>
+                          onPlace(chat.id, {
+                            pinned: false,
+                            folderId: folder.id,
+                          })
+                        }
+                      >
+                        {folder.name}
+                      </DropdownMenuItem>
+                    ))}
+                    {chat.folderId && (
+                      <>
+                        <DropdownMenuSeparator />
+                        <DropdownMenuItem
+                          onClick={() => onPlace(chat.id, { folderId: null })}
+                        >
+                          Remove from folder
+                        </DropdownMenuItem>
+                      </>
+                    )}
+                  </DropdownMenuSubContent>
+                </DropdownMenuSub>
+              )}
+              <DropdownMenuItem
+                onClick={() =>
+                  onPlace(chat.id, {
+                    archivedAt: chat.archivedAt ? null : new Date(),
+                  })
+                }
+              >
+                {chat.archivedAt ? <ArchiveRestoreIcon /> : <ArchiveIcon />}
+                {chat.archivedAt ? "Unarchive" : "Archive"}
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={(e) => {
+              e.stopPropagation();
+              onDelete(chat.id);
+            }}
+            title="Move to trash"
+          >
+            <TrashIcon className="h-3 w-3" />
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+
+  const renderTrashedChat = (chat: Chat) => (
+    <Card key={chat.id} className="opacity-70">
+      <CardContent className="p-3">
+        <div className="flex items-center justify-between">
+          <div className="flex-1 min-w-0">
+            <p className="text-sm font-medium truncate">{chat.title}</p>
+            <p className="text-xs text-muted-foreground">
+              Deleted for good on {purgeDate(chat).toLocaleDateString()}
+            </p>
+          </div>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => onRestore(chat.id)}
+            title="Restore chat"
+          >
+            <RotateCcwIcon className="h-3 w-3" />
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => {
+              if (window.confirm(`Delete "${chat.title}" for good?`)) {
+                onPurge([chat.id]);
+              }
+            }}
+            title="Delete for good"
+          >
+            <TrashIcon className="h-3 w-3" />
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+
+  return (
+    <div className="space-y-3">
+      {groups.pinned.length > 0 && (
+        <section {...dropProps("pinned")}>
+          <p className="text-xs font-medium text-muted-foreground mb-1 px-1">
+            Pinned
+          </p>
+          <div className="space-y-2">{groups.pinned.map(renderChat)}</div>
+        </section>
+      )}
+
+      {groups.folders.map(({ folder, chats }) => (
+        <section key={folder.id} {...dropProps({ folderId: folder.id })}>
+          <div className="flex items-center gap-1 px-1">
+            <button
+              className="flex flex-1 min-w-0 items-center gap-1 text-xs font-medium text-muted-foreground"
+              onClick={() => toggleFolder(folder.id)}
+            >
+              {collapsed.has(folder.id) ? (
+                <ChevronRightIcon className="h-3 w-3" />
+              ) : (
+                <ChevronDownIcon className="h-3 w-3" />
+              )}
+              <FolderIcon className="h-3 w-3" />
+              {editingId === folder.id ? null : (
+                <span
+                  className="truncate"
+                  onDoubleClick={(e) => {
+                    e.stopPropagation();
+                    setEditingId(folder.id);
+                  }}
+                >
+                  {folder.name} ({chats.length})
+                </span>
+              )}
+            </button>
+            {editingId === folder.id && (
+              <InlineRename
+                value={folder.name}
+                onCommit={(name) => onRenameFolder(folder.id, name)}
+                onDone={() => setEditingId(null)}
+              />
+            )}
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-6 w-6 p-0"
+              onClick={() => setEditingId(folder.id)}
+              title="Rename folder"
+            >
+              <PencilIcon className="h-3 w-3" />
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-6 w-6 p-0"
+              onClick={() => onDeleteFolder(folder.id)}
+              title="Delete folder; its chats are kept"
+            >
+              <TrashIcon className="h-3 w-3" />
+            </Button>
+          </div>
+          {!collapsed.has(folder.id) && (
+            <div className="space-y-2 mt-1 min-h-2">
+              {chats.map(renderChat)}
+            </div>
+          )}
+        </section>
+      ))}
+
+      <section {...dropProps({ folderId: null })}>
+        <div className="flex items-center justify-between px-1">
+          <p className="text-xs font-medium text-muted-foreground">Chats</p>
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-6 px-1 text-xs"
+            onClick={() => setEditingId("new-folder")}
+          >
+            <FolderPlusIcon className="h-3 w-3 mr-1" />
+            New folder
+          </Button>
+        </div>
+        {editingId === "new-folder" && (
+          <div className="px-1 my-1">
+            <InlineRename
+              value=""
+              onCommit={onCreateFolder}
+              onDone={() => setEditingId(null)}
+            />
+          </div>
+        )}
+        <div className="space-y-2 mt-1 min-h-2">
+          {groups.unfiled.map(renderChat)}
+        </div>
+      </section>
+
+      {groups.archived.length > 0 && (
+        <section>
+          <button
+            className="flex items-center gap-1 px-1 text-xs font-medium text-muted-foreground"
+            onClick={() => setShowArchived((show) => !show)}
+          >
+            {showArchived ? (
+              <ChevronDownIcon className="h-3 w-3" />
+            ) : (
+              <ChevronRightIcon className="h-3 w-3" />
+            )}
+            <ArchiveIcon className="h-3 w-3" />
+            Archived ({groups.archived.length})
+          </button>
+          {showArchived && (
+            <div className="space-y-2 mt-1">
+              {groups.archived.map(renderChat)}
+            </div>
+          )}
+        </section>
+      )}
+
+      {groups.trash.length > 0 && (
+        <section>
+          <div className="flex items-center justify-between px-1">
+            <button
+              className="flex items-center gap-1 text-xs font-medium text-muted-foreground"
+              onClick={() => setShowTrash((show) => !show)}
+            >
+              {showTrash ? (
+                <ChevronDownIcon className="h-3 w-3" />
+              ) : (
+                <ChevronRightIcon className="h-3 w-3" />
+              )}
+              <TrashIcon className="h-3 w-3" />
+              Trash ({groups.trash.length})
+            </button>
+            {showTrash && (
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-6 px-1 text-xs"
+                onClick={() => {
+                  if (
+                    window.confirm(
+                      "Delete every chat in the trash for good? Their files are deleted too."
+                    )
+                  ) {
+                    onPurge(groups.trash.map((chat) => chat.id));
+                  }
+                }}
+              >
+                Empty trash
+              </Button>
+            )}
+          </div>
+          {showTrash && (
+            <div className="space-y-2 mt-1">
+              {groups.trash.map(renderTrashedChat)}
+            </div>
+          )}
+        </section>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { SearchIcon, XIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { buildSearchIndex, type SearchResult } from "@/lib/chat/search";
+import type { Chat } from "@/lib/chat/types";
+
+// Server results are only requested once typing pauses
+const SERVER_SEARCH_DELAY_MS = 300;
+
+interface ChatSearchProps {
+  chats: Chat[];
+  /** Also query Postgres full-text search; requires a signed-in user */
+  serverSearch: boolean;
+  onSelect: (result: SearchResult) => void;
+  /** Shown while the search box is empty, i.e. the chat list */
+  children: React.ReactNode;
+}
+
+function HighlightedText({
+  text,
+  highlights,
+}: Pick<SearchResult, "highlights"> & { text: string }) {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  for (const [start, end] of highlights) {
+    if (start < position) continue;
+    parts.push(text.slice(position, start));
+    parts.push(
+      <mark key={start} className="bg-yellow-200 dark:bg-yellow-700 rounded-sm">
+        {text.slice(start, end)}
+      </mark>
+    );
+    position = end;
+  }
+  parts.push(text.slice(position));
+  return <>{parts}</>;
+}
+
+// Search box for the sidebar. Local chats are searched on every keystroke;
+// server matches are merged in when they arrive.
+export function ChatSearch({
+  chats,
+  serverSearch,
+  onSelect,
+  children,
+}: ChatSearchProps) {
+  const [query, setQuery] = useState("");
+  const [serverResults, setServerResults] = useState<SearchResult[]>([]);
+
+  const index = useMemo(() => buildSearchIndex(chats), [chats]);
+  const localResults = useMemo(() => index.search(query), [index, query]);
+
+  useEffect(() => {
+    setServerResults([]);
+    const trimmed = query.trim();
+    if (!serverSearch || !trimmed) return;
+
+    const controller = new AbortController();
+    const timeout = setTimeout(async () => {
+      try {
+        const response = await fetch(
+          `/api/conversations/search?q=${encodeURIComponent(trimmed)}`,
+          { signal: controller.signal }
+        );
+        if (!response.ok) return;
+        const { results } = (await response.json()) as {
+          results: Array<SearchResult & { timestamp: string }>;
+        };
+        setServerResults(
+          results.map((result) => ({
+            ...result,
+            timestamp: new Date(result.timestamp),
+          }))
+        );
+      } catch (error) {
+        if (!controller.signal.aborted) console.error(error);
+      }
+    }, SERVER_SEARCH_DELAY_MS);
+
+    return () => {
+      clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [query, serverSearch]);
+
+  // Local results first; server results only add messages of chats that
+  // are loaded here, since only those can be opened
+  const results = useMemo(() => {
+    const chatIds = new Set(chats.map((chat) => chat.id));
+    const seen = new Set(localResults.map((result) => result.messageId));
+    return [
+      ...localResults,
+      ...serverResults.filter(
+        (result) => chatIds.has(result.chatId) && !seen.has(result.messageId)
+      ),
+    ];
+  }, [chats, localResults, serverResults]);
+
+  const titles = useMemo(
+    () => new Map(chats.map((chat) => [chat.id, chat.title])),
+    [chats]
+  );
+
+  return (
+    <>
+      <div className="relative mb-3">
+        <SearchIcon className="absolute left-2 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <Input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Escape") setQuery("");
+          }}
+          placeholder="Search messages"
+          className="pl-8 pr-8 h-9"
+        />
+        {query && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="absolute right-1 top-1/2 -translate-y-1/2 h-6 w-6 p-0"
+            onClick={() => setQuery("")}
+            title="Clear search"
+          >
+            <XIcon className="h-3 w-3" />
+          </Button>
+        )}
+      </div>
+
+      {!query.trim() ? (
+        children
+      ) : results.length === 0 ? (
+        <p className="text-sm text-muted-foreground px-1">No messages found</p>
+      ) : (
+        <div className="space-y-1">
+          {results.map((result) => (
+            <button
+              key={result.messageId}
+              className="w-full text-left rounded-md p-2 hover:bg-muted"
+              onClick={() => onSelect(result)}
+            >
+              <p className="text-xs font-medium truncate">
+                {titles.get(result.chatId)}
+              </p>
+              <p className="text-xs text-muted-foreground line-clamp-3">
+                <HighlightedText
+                  text={result.snippet}
+                  highlights={result.highlights}
+                />
+              </p>
+            </button>
+          ))}
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,55 @@
+"use client";
+
+import { DownloadIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  downloadChats,
+  EXPORT_FORMATS,
+  type ExportFormat,
+} from "@/lib/chat/export";
+import type { Chat } from "@/lib/chat/types";
+
+interface ExportMenuProps {
+  chats: Chat[];
+  /** File name without extension */
+  name: string;
+  /** Button text; an icon-only button when omitted */
+  label?: string;
+  disabled?: boolean;
+}
+
+// Download menu offering every export format for one chat or all of them
+export function ExportMenu({ chats, name, label, disabled }: ExportMenuProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className={label ? "flex-1 justify-start" : undefined}
+          disabled={disabled || chats.length === 0}
+          title={label ? undefined : "Export chat"}
+        >
+          <DownloadIcon className={label ? "h-4 w-4 mr-2" : "h-4 w-4"} />
+          {label}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((format) => (
+          <DropdownMenuItem
+            key={format}
+            onClick={() => downloadChats(chats, format, name)}
+          >
+            {EXPORT_FORMATS[format].label}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,130 @@
+"use client";
+
+import { Settings2Icon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import type { ModelConfig } from "@/lib/constants";
+import type { GenerationParameters } from "@/lib/chat/types";
+import { clampParameters } from "@/lib/chat/parameters";
+
+interface GenerationSettingsProps {
+  model: ModelConfig;
+  value: GenerationParameters | undefined;
+  onChange: (parameters: GenerationParameters) => void;
+  disabled?: boolean;
+}
+
+// Popover next to the model picker for the chat's sampling parameters
+export function GenerationSettings({
+  model,
+  value,
+  onChange,
+  disabled = false,
+}: GenerationSettingsProps) {
+  const parameters = clampParameters(value, model);
+
+  const update = (patch: GenerationParameters) =>
+    onChange({ ...parameters, ...patch });
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-8 w-8 p-0"
+          disabled={disabled}
+          title="Generation settings"
+        >
+          <Settings2Icon className="h-4 w-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-64 p-3">
+        {/* Keep the menu's typeahead from swallowing keystrokes */}
+        <div className="space-y-4" onKeyDown={(e) => e.stopPropagation()}>
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <label className="text-xs font-medium" htmlFor="temperature">
+                Temperature
+              </label>
+              <span className="text-xs text-muted-foreground">
+                {parameters.temperature ?? "default"}
+              </span>
+            </div>
+            <input
+              id="temperature"
+              type="range"
+              min={0}
+              max={model.limits.maxTemperature}
+              step={0.1}
+              value={parameters.temperature ?? model.limits.maxTemperature / 2}
+              onChange={(e) => update({ temperature: Number(e.target.value) })}
+              className="w-full"
+            />
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <label className="text-xs font-medium" htmlFor="top-p">
+                Top P
+              </label>
+              <span className="text-xs text-muted-foreground">
+                {parameters.topP ?? "default"}
+              </span>
+            </div>
+            <input
+              id="top-p"
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={parameters.topP ?? 1}
+              onChange={(e) => update({ topP: Number(e.target.value) })}
+              className="w-full"
+            />
+          </div>
+
+          <div>
+            <label className="text-xs font-medium" htmlFor="max-tokens">
+              Max tokens
+            </label>
+            <Input
+              id="max-tokens"
+              type="number"
+              min={1}
+              max={model.limits.maxOutputTokens}
+              placeholder="Default"
+              value={parameters.maxTokens ?? ""}
+              onChange={(e) =>
+                update({
+                  maxTokens: e.target.value
+                    ? Number(e.target.value)
+                    : undefined,
+                })
+              }
+              className="mt-1 h-8 text-sm"
+            />
+            <p className="text-xs text-muted-foreground mt-1">
+              Up to {model.limits.maxOutputTokens.toLocaleString()} for{" "}
+              {model.name}
+            </p>
+          </div>
+
+          <Button
+            variant="outline"
+            size="sm"
+            className="w-full"
+            onClick={() => onChange({})}
+          >
+            Reset to defaults
+          </Button>
+        </div>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
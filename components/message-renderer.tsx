@@ -1,17 +1,63 @@
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
 import rehypeHighlight from "rehype-highlight";
+import { WrenchIcon } from "lucide-react";
+import type { ToolInvocation } from "@/lib/chat/types";
 
 interface MessageRendererProps {
   content: string;
   isUser?: boolean;
   isStreaming?: boolean;
+  toolCalls?: ToolInvocation[];
+}
+
+function formatJson(value: unknown): string {
+  if (typeof value === "string") {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      return value as string;
+    }
+  }
+  return JSON.stringify(value, null, 2);
+}
+
+// Collapsible block showing a tool call with its arguments and result
+function ToolCallBlock({ toolCall }: { toolCall: ToolInvocation }) {
+  const isRunning = toolCall.result === undefined;
+
+  return (
+    <details className="mb-2 rounded border bg-background/50 text-xs">
+      <summary className="flex cursor-pointer items-center gap-1 px-2 py-1">
+        <WrenchIcon className="h-3 w-3" />
+        <span className="font-mono">{toolCall.name}</span>
+        <span className="text-muted-foreground">
+          {isRunning ? "running…" : toolCall.isError ? "failed" : "done"}
+        </span>
+      </summary>
+      <div className="space-y-1 border-t px-2 py-1">
+        <p className="font-medium">Arguments</p>
+        <pre className="overflow-x-auto font-mono">
+          {formatJson(toolCall.arguments)}
+        </pre>
+        {!isRunning && (
+          <>
+            <p className="font-medium">Result</p>
+            <pre className="overflow-x-auto font-mono">
+              {formatJson(toolCall.result)}
+            </pre>
+          </>
+        )}
+      </div>
+    </details>
+  );
 }
 
 export function MessageRenderer({
   content,
   isUser = false,
   isStreaming = false,
+  toolCalls,
 }: MessageRendererProps) {
   // For user messages, render as plain text with preserved whitespace
   if (isUser) {
@@ -25,6 +71,9 @@ export function MessageRenderer({
   // For assistant messages, render as markdown
   return (
     <div className="text-sm prose prose-sm max-w-none dark:prose-invert">
+      {toolCalls?.map((toolCall) => (
+        <ToolCallBlock key={toolCall.id} toolCall={toolCall} />
+      ))}
       <ReactMarkdown
         remarkPlugins={[remarkGfm]}
         rehypePlugins={[rehypeHighlight]}
@@ -0,0 +1,140 @@
+"use client";
+
+import { useState } from "react";
+import { Share2Icon } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { getChatShare, revokeChatShare, shareChat } from "@/app/actions/shares";
+import { toAttachmentMetadata } from "@/lib/conversations";
+import type { ChatShare } from "@/lib/shares";
+import type { Chat, Message } from "@/lib/chat/types";
+
+interface ShareMenuProps {
+  chat: Chat;
+  /** The branch being shown; only these messages are published */
+  messages: Message[];
+  disabled?: boolean;
+}
+
+function shareUrl(share: ChatShare) {
+  return `${window.location.origin}/share/${share.slug}`;
+}
+
+// Creates, copies and revokes the public read-only link of a chat. The link
+// is a snapshot: sharing again publishes newer messages under a new slug.
+export function ShareMenu({ chat, messages, disabled }: ShareMenuProps) {
+  const [share, setShare] = useState<ChatShare | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const copy = async (share: ChatShare) => {
+    try {
+      await navigator.clipboard.writeText(shareUrl(share));
+      toast.success("Link copied");
+    } catch {
+      toast.error("Could not copy the link");
+    }
+  };
+
+  const create = async () => {
+    setIsLoading(true);
+    let result: Awaited<ReturnType<typeof shareChat>>;
+    try {
+      // Shares never include attachment data, and sending it could exceed
+      // the server action body limit
+      result = await shareChat({
+        chatId: chat.id,
+        title: chat.title,
+        messages: messages.map((message) => ({
+          ...message,
+          attachments:
+            message.attachments && toAttachmentMetadata(message.attachments),
+        })),
+      });
+    } catch {
+      result = { error: "Could not share the chat" };
+    } finally {
+      setIsLoading(false);
+    }
+
+    if (result.error || !result.share) {
+      toast.error(result.error ?? "Could not share the chat");
+      return;
+    }
+    setShare(result.share);
+    await copy(result.share);
+  };
+
+  const revoke = async () => {
+    setIsLoading(true);
+    let error: string | undefined;
+    try {
+      ({ error } = await revokeChatShare(chat.id));
+    } catch {
+      error = "Could not revoke the link";
+    } finally {
+      setIsLoading(false);
+    }
+
+    if (error) {
+      toast.error(error);
+      return;
+    }
+    setShare(null);
+    toast.success("Link revoked");
+  };
+
+  return (
+    <DropdownMenu
+      onOpenChange={async (open) => {
+        if (!open) return;
+        setIsLoading(true);
+        setShare(await getChatShare(chat.id));
+        setIsLoading(false);
+      }}
+    >
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          disabled={disabled || messages.length === 0}
+          title="Share chat"
+        >
+          <Share2Icon className="h-4 w-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">
+          {share
+            ? `Shared on ${share.createdAt.toLocaleDateString()}`
+            : "Anyone with the link can read this chat"}
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {share && (
+          <DropdownMenuItem disabled={isLoading} onClick={() => copy(share)}>
+            Copy link
+          </DropdownMenuItem>
+        )}
+        <DropdownMenuItem disabled={isLoading} onClick={create}>
+          {share ? "Update link with new messages" : "Create link"}
+        </DropdownMenuItem>
+        {share && (
+          <DropdownMenuItem
+            disabled={isLoading}
+            onClick={revoke}
+            className="text-destructive"
+          >
+            Revoke link
+          </DropdownMenuItem>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
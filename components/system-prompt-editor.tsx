@@ -0,0 +1,136 @@
+"use client";
+
+import { useState } from "react";
+import { v4 as uuidv4 } from "uuid";
+import { ChevronDownIcon, TrashIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import type { PersonaPreset } from "@/lib/chat/types";
+
+interface SystemPromptEditorProps {
+  /** System prompt currently saved on the chat. */
+  value: string;
+  presets: PersonaPreset[];
+  onSave: (systemPrompt: string) => void;
+  onSavePreset: (preset: PersonaPreset) => void;
+  onDeletePreset: (presetId: string) => void;
+  onClose: () => void;
+}
+
+export function SystemPromptEditor({
+  value,
+  presets,
+  onSave,
+  onSavePreset,
+  onDeletePreset,
+  onClose,
+}: SystemPromptEditorProps) {
+  const [draft, setDraft] = useState(value);
+  const [presetName, setPresetName] = useState("");
+
+  const savePreset = () => {
+    const name = presetName.trim();
+    if (!name || !draft.trim()) return;
+    onSavePreset({ id: uuidv4(), name, systemPrompt: draft.trim() });
+    setPresetName("");
+  };
+
+  return (
+    <Card className="mx-2 md:mx-4 mt-2">
+      <CardContent className="p-3 space-y-3">
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-sm font-medium">System prompt</p>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm" className="text-xs">
+                Presets
+                <ChevronDownIcon className="h-3 w-3 ml-1" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="w-64">
+              {presets.length === 0 && (
+                <p className="p-3 text-xs text-muted-foreground">
+                  No presets yet. Save one below.
+                </p>
+              )}
+              {presets.map((preset) => (
+                <DropdownMenuItem
+                  key={preset.id}
+                  onClick={() => setDraft(preset.systemPrompt)}
+                  className="flex items-start justify-between gap-2 p-3"
+                >
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">{preset.name}</p>
+                    <p className="text-xs text-muted-foreground line-clamp-2">
+                      {preset.systemPrompt}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 w-6 p-0 shrink-0"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onDeletePreset(preset.id);
+                    }}
+                    title="Delete preset"
+                  >
+                    <TrashIcon className="h-3 w-3" />
+                  </Button>
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder="e.g. You are a concise assistant that answers in bullet points."
+          className="w-full rounded-md border bg-transparent p-2 text-sm"
+          rows={4}
+        />
+
+        <div className="flex flex-col md:flex-row gap-2">
+          <div className="flex flex-1 gap-2">
+            <Input
+              value={presetName}
+              onChange={(e) => setPresetName(e.target.value)}
+              placeholder="Preset name"
+              className="flex-1 text-sm"
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={savePreset}
+              disabled={!presetName.trim() || !draft.trim()}
+            >
+              Save as preset
+            </Button>
+          </div>
+          <div className="flex gap-2 justify-end">
+            <Button variant="ghost" size="sm" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button
+              size="sm"
+              onClick={() => {
+                onSave(draft.trim());
+                onClose();
+              }}
+            >
+              Save
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
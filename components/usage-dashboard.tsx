@@ -0,0 +1,336 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { DownloadIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { AVAILABLE_MODELS } from "@/lib/constants";
+import {
+  fetchEntitlements,
+  getEntitlementUsage,
+  type EntitlementUsage,
+} from "@/lib/entitlements";
+import type { Quota } from "@/lib/metering";
+import type { UsageEvent } from "@/lib/usage";
+import { cn } from "@/lib/utils";
+
+const RANGES = [7, 30, 90] as const;
+type Range = (typeof RANGES)[number];
+
+// Enough for the longest range; /api/usage caps requests at this size
+const EVENT_LIMIT = 5000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Bar colors, assigned to models in the order they appear
+const MODEL_COLORS = [
+  "bg-blue-500",
+  "bg-emerald-500",
+  "bg-amber-500",
+  "bg-violet-500",
+  "bg-rose-500",
+  "bg-cyan-500",
+];
+
+interface DailyUsage {
+  day: Date;
+  /** Per model id */
+  messages: Record<string, number>;
+  tokens: Record<string, number>;
+}
+
+type UsageEventJson = Omit<UsageEvent, "createdAt"> & { createdAt: string };
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function getModelName(modelId: string): string {
+  return AVAILABLE_MODELS.find((m) => m.id === modelId)?.name ?? modelId;
+}
+
+/**
+ * Failed generations and replies stopped before any output are recorded too,
+ * but are not messages the user got.
+ */
+function countsAsMessage(event: UsageEvent): boolean {
+  if (event.finishReason === "error") return false;
+  return !(event.finishReason === "aborted" && !event.metered);
+}
+
+function groupByDay(events: UsageEvent[], from: Date, days: number) {
+  const daily: DailyUsage[] = Array.from({ length: days }, (_, i) => ({
+    day: new Date(from.getFullYear(), from.getMonth(), from.getDate() + i),
+    messages: {},
+    tokens: {},
+  }));
+
+  for (const event of events) {
+    const index = Math.round(
+      (startOfDay(event.createdAt).getTime() - from.getTime()) / DAY_MS
+    );
+    const entry = daily[index];
+    if (!entry) continue;
+    if (countsAsMessage(event)) {
+      entry.messages[event.model] = (entry.messages[event.model] ?? 0) + 1;
+    }
+    entry.tokens[event.model] =
+      (entry.tokens[event.model] ?? 0) + event.totalTokens;
+  }
+
+  return daily;
+}
+
+/**
+ * Date on which the allowance runs out at the average daily rate of the
+ * period so far, or null if it lasts until the period ends.
+ */
+function projectQuotaEnd(quota: EntitlementUsage, now: Date): Date | null {
+  const elapsedDays = Math.max(
+    (now.getTime() - quota.periodStart.getTime()) / DAY_MS,
+    1
+  );
+  const perDay = quota.used / elapsedDays;
+  if (perDay <= 0) return null;
+
+  const remaining = Math.max(quota.limit - quota.used, 0);
+  const projected = new Date(now.getTime() + (remaining / perDay) * DAY_MS);
+  return projected < quota.periodEnd ? projected : null;
+}
+
+const formatDay = (date: Date) =>
+  date.toLocaleDateString(undefined, { month: "short", day: "numeric" });
+
+// Daily usage for the selected range, charted per model, with what is left
+// of the plan's allowance this billing period
+export function UsageDashboard({ quota }: { quota: Quota }) {
+  const [range, setRange] = useState<Range>(30);
+  const [events, setEvents] = useState<UsageEvent[] | null>(null);
+  const [quotaUsage, setQuotaUsage] = useState<
+    EntitlementUsage | null | undefined
+  >();
+  const [error, setError] = useState<string | null>(null);
+
+  const from = useMemo(
+    () => startOfDay(new Date(Date.now() - (range - 1) * DAY_MS)),
+    [range]
+  );
+  const query = `from=${encodeURIComponent(from.toISOString())}&limit=${EVENT_LIMIT}`;
+
+  useEffect(() => {
+    let cancelled = false;
+    setEvents(null);
+    setError(null);
+
+    fetch(`/api/usage?${query}`)
+      .then(async (response) => {
+        if (!response.ok) throw new Error("Failed to load usage");
+        const data = (await response.json()) as { events: UsageEventJson[] };
+        if (cancelled) return;
+        setEvents(
+          data.events.map((event) => ({
+            ...event,
+            createdAt: new Date(event.createdAt),
+          }))
+        );
+      })
+      .catch((error) => {
+        console.error(error);
+        if (!cancelled) setError("Could not load your usage");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [query]);
+
+  useEffect(() => {
+    fetchEntitlements()
+      .then((entitlements) =>
+        setQuotaUsage(getEntitlementUsage(entitlements, quota.feature))
+      )
+      .catch((error) => {
+        console.error("Failed to fetch entitlements", error);
+        setQuotaUsage(null);
+      });
+  }, [quota.feature]);
+
+  const daily = useMemo(
+    () => (events ? groupByDay(events, from, range) : []),
+    [events, from, range]
+  );
+
+  const models = useMemo(
+    () => [...new Set(events?.map((event) => event.model))],
+    [events]
+  );
+
+  return (
+    <div className="space-y-6">
+      <QuotaCard quota={quotaUsage} unit={quota.unit} />
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex gap-1">
+          {RANGES.map((days) => (
+            <Button
+              key={days}
+              size="sm"
+              variant={range === days ? "default" : "outline"}
+              onClick={() => setRange(days)}
+            >
+              {days} days
+            </Button>
+          ))}
+        </div>
+        <Button asChild size="sm" variant="outline">
+          <a href={`/api/usage?${query}&format=csv`} download>
+            <DownloadIcon className="h-4 w-4 mr-2" />
+            Download CSV
+          </a>
+        </Button>
+      </div>
+
+      {error ? (
+        <p className="text-sm text-red-600">{error}</p>
+      ) : events === null ? (
+        <Skeleton className="h-64 w-full" />
+      ) : (
+        <>
+          <DailyChart
+            title="Messages per day"
+            daily={daily}
+            models={models}
+            metric="messages"
+          />
+          <DailyChart
+            title="Tokens per day"
+            daily={daily}
+            models={models}
+            metric="tokens"
+          />
+          {models.length > 0 && (
+            <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+              {models.map((model, i) => (
+                <span key={model} className="flex items-center gap-1">
+                  <span
+                    className={cn(
+                      "h-2 w-2 rounded-sm",
+                      MODEL_COLORS[i % MODEL_COLORS.length]
+                    )}
+                  />
+                  {getModelName(model)}
+                </span>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+function QuotaCard({
+  quota,
+  unit,
+}: {
+  quota: EntitlementUsage | null | undefined;
+  unit: string;
+}) {
+  if (quota === undefined) return <Skeleton className="h-24 w-full" />;
+
+  const now = new Date();
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-2">
+        <h2 className="font-medium">Current billing period</h2>
+        {!quota || quota.limit <= 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Your plan has no usage allowance to track.
+          </p>
+        ) : (
+          <>
+            <div className="h-2 rounded-full bg-muted overflow-hidden">
+              <div
+                className={cn(
+                  "h-full",
+                  quota.used >= quota.limit ? "bg-red-500" : "bg-blue-500"
+                )}
+                style={{
+                  width: `${Math.min((quota.used / quota.limit) * 100, 100)}%`,
+                }}
+              />
+            </div>
+            <p className="text-sm">
+              {Math.max(quota.limit - quota.used, 0)} of {quota.limit} {unit}{" "}
+              left until {formatDay(quota.periodEnd)}
+            </p>
+            <p className="text-sm text-muted-foreground">
+              {quota.used >= quota.limit
+                ? "Your allowance is used up for this period."
+                : (() => {
+                    const runsOut = projectQuotaEnd(quota, now);
+                    return runsOut
+                      ? `At your current pace it runs out around ${formatDay(runsOut)}.`
+                      : "At your current pace it lasts the whole period.";
+                  })()}
+            </p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+interface DailyChartProps {
+  title: string;
+  daily: DailyUsage[];
+  models: string[];
+  metric: "messages" | "tokens";
+}
+
+// Stacked bars, one per day and one segment per model
+function DailyChart({ title, daily, models, metric }: DailyChartProps) {
+  const totals = daily.map((entry) =>
+    Object.values(entry[metric]).reduce((sum, value) => sum + value, 0)
+  );
+  const max = Math.max(...totals, 1);
+  const total = totals.reduce((sum, value) => sum + value, 0);
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-baseline justify-between">
+          <h2 className="font-medium">{title}</h2>
+          <span className="text-sm text-muted-foreground">
+            {total.toLocaleString()} total
+          </span>
+        </div>
+        <div className="flex items-end gap-px h-40">
+          {daily.map((entry, i) => (
+            <div
+              key={entry.day.toISOString()}
+              className="flex-1 flex flex-col-reverse h-full"
+              title={`${formatDay(entry.day)}: ${totals[i].toLocaleString()}`}
+            >
+              {models.map((model, m) =>
+                entry[metric][model] ? (
+                  <div
+                    key={model}
+                    className={MODEL_COLORS[m % MODEL_COLORS.length]}
+                    style={{ height: `${(entry[metric][model] / max) * 100}%` }}
+                  />
+                ) : null
+              )}
+            </div>
+          ))}
+        </div>
+        <div className="flex justify-between text-xs text-muted-foreground">
+          <span>{formatDay(daily[0].day)}</span>
+          <span>{formatDay(daily[daily.length - 1].day)}</span>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,128 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  randomBytes,
+} from "crypto";
+import { createAdminClient } from "@/lib/supabase/admin";
+import type { ProviderId } from "@/lib/providers/types";
+
+// Vault for the provider API keys users bring themselves. Keys are
+// encrypted with AES-256-GCM under API_KEY_ENCRYPTION_SECRET and bound to
+// their owner and provider, so a ciphertext copied to another row does not
+// decrypt. Only server code may import this module.
+
+const TABLE = "user_api_keys";
+const VERSION = "v1";
+
+export interface StoredApiKey {
+  provider: ProviderId;
+  /** Last characters of the key, safe to show in the UI. */
+  hint: string;
+  updatedAt: Date;
+}
+
+function getEncryptionKey(): Buffer {
+  const secret = process.env.API_KEY_ENCRYPTION_SECRET;
+  if (!secret) {
+    throw new Error("API_KEY_ENCRYPTION_SECRET is not set");
+  }
+  // Hashing accepts secrets of any length and yields the 32 bytes AES-256 needs
+  return createHash("sha256").update(secret).digest();
+}
+
+function encrypt(plaintext: string, context: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", getEncryptionKey(), iv);
+  cipher.setAAD(Buffer.from(context));
+  const ciphertext = Buffer.concat([
+    cipher.update(plaintext, "utf8"),
+    cipher.final(),
+  ]);
+  return [
+    VERSION,
+    iv.toString("base64"),
+    cipher.getAuthTag().toString("base64"),
+    ciphertext.toString("base64"),
+  ].join(":");
+}
+
+function decrypt(payload: string, context: string): string {
+  const [version, iv, tag, ciphertext] = payload.split(":");
+  if (version !== VERSION || !iv || !tag || !ciphertext) {
+    throw new Error("Unrecognized encrypted key format");
+  }
+  const decipher = createDecipheriv(
+    "aes-256-gcm",
+    getEncryptionKey(),
+    Buffer.from(iv, "base64")
+  );
+  decipher.setAAD(Buffer.from(context));
+  decipher.setAuthTag(Buffer.from(tag, "base64"));
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, "base64")),
+    decipher.final(),
+  ]).toString("utf8");
+}
+
+export async function listUserApiKeys(userId: string): Promise<StoredApiKey[]> {
+  const { data, error } = await createAdminClient()
+    .from(TABLE)
+    .select("provider, key_hint, updated_at")
+    .eq("user_id", userId);
+
+  if (error) throw error;
+  return data.map((row) => ({
+    provider: row.provider as ProviderId,
+    hint: row.key_hint,
+    updatedAt: new Date(row.updated_at),
+  }));
+}
+
+export async function saveUserApiKey(
+  userId: string,
+  provider: ProviderId,
+  apiKey: string
+): Promise<void> {
+  const { error } = await createAdminClient()
+    .from(TABLE)
+    .upsert({
+      user_id: userId,
+      provider,
+      encrypted_key: encrypt(apiKey, `${userId}:${provider}`),
+      key_hint: apiKey.slice(-4),
+      updated_at: new Date().toISOString(),
+    });
+
+  if (error) throw error;
+}
+
+export async function deleteUserApiKey(
+  userId: string,
+  provider: ProviderId
+): Promise<void> {
+  const { error } = await createAdminClient()
+    .from(TABLE)
+    .delete()
+    .eq("user_id", userId)
+    .eq("provider", provider);
+
+  if (error) throw error;
+}
+
+/** Returns the user's decrypted key for `provider`, or null if none is stored. */
+export async function getUserApiKey(
+  userId: string,
+  provider: ProviderId
+): Promise<string | null> {
+  const { data, error } = await createAdminClient()
+    .from(TABLE)
+    .select("encrypted_key")
+    .eq("user_id", userId)
+    .eq("provider", provider)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return null;
+  return decrypt(data.encrypted_key, `${userId}:${provider}`);
+}
@@ -0,0 +1,164 @@
+import { describe, expect, it, vi } from "vitest";
+import type { ModelConfig } from "@/lib/constants";
+import type { ChatProvider, ProviderMessage } from "@/lib/providers";
+import { fitToContext } from "./context";
+import { ChatError } from "./errors";
+
+// With maxTokens 100 the budget is 4000 * 0.9 - 100 = 3500 tokens, of which
+// a compacted history keeps 3500 * 0.6 - 1024 = 1076
+const model: ModelConfig = {
+  id: "test-model",
+  name: "Test Model",
+  description: "For tests",
+  provider: "openai",
+  feature: "chat-messages",
+  limits: { contextWindow: 4000, maxOutputTokens: 1000, maxTemperature: 2 },
+};
+const parameters = { maxTokens: 100 };
+const system = "Be brief";
+
+// A message of `tokens` estimated tokens
+function message(index: number, tokens = 500): ProviderMessage {
+  const text = `${index} `.padEnd(tokens * 4, "x");
+  return { role: index % 2 === 0 ? "user" : "assistant", content: text };
+}
+
+function history(length: number, tokens?: number) {
+  return Array.from({ length }, (_, i) => message(i, tokens));
+}
+
+function fakeProvider(summary = "The user asked things") {
+  const streamChat = vi.fn<ChatProvider["streamChat"]>(
+    async (_params, onContent) => {
+      onContent(summary);
+      return {
+        inputTokens: 40,
+        outputTokens: 10,
+        totalTokens: 50,
+        characters: summary.length,
+        finishReason: "stop",
+      };
+    }
+  );
+  return { provider: { streamChat } as unknown as ChatProvider, streamChat };
+}
+
+const fit = (
+  provider: ChatProvider,
+  messages: ProviderMessage[],
+  cacheKey?: string
+) =>
+  fitToContext({
+    provider,
+    model,
+    messages,
+    system,
+    parameters,
+    apiKey: "key",
+    cacheKey,
+  });
+
+describe("fitToContext", () => {
+  it("passes a history that fits through unchanged", async () => {
+    const { provider, streamChat } = fakeProvider();
+    const messages = history(5);
+
+    expect(await fit(provider, messages)).toEqual({
+      messages,
+      system,
+      usage: { inputTokens: 0, outputTokens: 0 },
+    });
+    expect(streamChat).not.toHaveBeenCalled();
+  });
+
+  it("rejects a latest message that cannot fit on its own", async () => {
+    const { provider } = fakeProvider();
+    const messages = [...history(2), message(2, 2500)];
+
+    await expect(fit(provider, messages)).rejects.toThrow(ChatError);
+    await expect(fit(provider, messages)).rejects.toMatchObject({
+      code: "invalid_request",
+    });
+  });
+
+  it("summarizes the oldest turns and keeps the system prompt and latest message", async () => {
+    const { provider, streamChat } = fakeProvider();
+    const messages = history(9);
+
+    const result = await fit(provider, messages);
+
+    expect(result.messages).toEqual([messages[8]]);
+    expect(result.system).toBe(
+      `${system}\n\nSummary of the earlier conversation:\nThe user asked things`
+    );
+    expect(result.compaction).toEqual({ omitted: 8, summarized: true });
+    expect(result.usage).toEqual({ inputTokens: 40, outputTokens: 10 });
+
+    // The summary request is itself cut to the budget, keeping the newest
+    // part of the omitted turns
+    const [params] = streamChat.mock.calls[0];
+    const transcript = params.messages[0].content as string;
+    expect(params.model).toBe("test-model");
+    expect(params.messages).toHaveLength(1);
+    expect(transcript.length).toBeLessThanOrEqual(3500 * 4);
+    expect(transcript.endsWith(`assistant: ${messages[7].content}`)).toBe(true);
+    expect(transcript.includes(messages[8].content as string)).toBe(false);
+  });
+
+  it("starts the kept history on a user turn", async () => {
+    const { provider } = fakeProvider();
+    // The two newest messages fit the target, but the older one is a reply
+    const messages = [...history(8), message(9, 200), message(10, 200)];
+
+    const result = await fit(provider, messages);
+
+    expect(result.messages[0].role).toBe("user");
+    expect(result.messages[result.messages.length - 1]).toBe(messages[9]);
+  });
+
+  it("leaves the turns out without a summary when summarizing fails", async () => {
+    const { provider, streamChat } = fakeProvider();
+    streamChat.mockRejectedValueOnce(new Error("provider down"));
+    vi.spyOn(console, "error").mockImplementationOnce(() => {});
+
+    const result = await fit(provider, history(9));
+
+    expect(result.system).toBe(system);
+    expect(result.compaction).toEqual({ omitted: 8, summarized: false });
+    expect(result.usage).toEqual({ inputTokens: 0, outputTokens: 0 });
+  });
+
+  it("reuses the cached summary on the next turn of the same chat", async () => {
+    const { provider, streamChat } = fakeProvider();
+    const messages = history(9);
+    const first = await fit(provider, messages, "chat-reuse");
+
+    const next = [...messages, message(9), message(10)];
+    const second = await fit(provider, next, "chat-reuse");
+
+    expect(streamChat).toHaveBeenCalledTimes(1);
+    expect(second.messages).toEqual(next.slice(8));
+    expect(second.system).toBe(first.system);
+    expect(second.compaction).toEqual({ omitted: 8, summarized: true });
+    expect(second.usage).toEqual({ inputTokens: 0, outputTokens: 0 });
+  });
+
+  it("summarizes again when the history before the cut changed", async () => {
+    const { provider, streamChat } = fakeProvider();
+    const messages = history(9);
+    await fit(provider, messages, "chat-edited");
+
+    const edited = [message(0, 499), ...messages.slice(1)];
+    await fit(provider, edited, "chat-edited");
+
+    expect(streamChat).toHaveBeenCalledTimes(2);
+  });
+
+  it("summarizes every turn without a cache key", async () => {
+    const { provider, streamChat } = fakeProvider();
+    await fit(provider, history(9));
+    await fit(provider, history(9));
+
+    expect(streamChat).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,227 @@
+import { createHash } from "node:crypto";
+import type { ModelConfig } from "@/lib/constants";
+import type { ChatProvider, ProviderMessage } from "@/lib/providers";
+import {
+  CHARS_PER_TOKEN,
+  estimateMessageTokens,
+  estimateProviderMessageTokens,
+  estimateTokens,
+} from "@/lib/tokens";
+import { ChatError } from "./errors";
+import { DEFAULT_MAX_TOKENS } from "./parameters";
+import type { ContextCompaction, GenerationParameters } from "./types";
+
+// Keeps a chat's history within the model's context window. When it no
+// longer fits, the oldest turns are left out and replaced by a summary
+// written by the same model, which is passed along with the system prompt.
+
+// Share of the window the estimates may fill; they are only heuristics
+const SAFETY_MARGIN = 0.9;
+
+// A compacted history is cut down to this share of the budget, so that the
+// same cut, and its cached summary, serves the turns that follow
+const COMPACT_TARGET = 0.6;
+
+const SUMMARY_MAX_TOKENS = 1024;
+
+const SUMMARY_PROMPT =
+  "Summarize the conversation below so that it can replace it as context " +
+  "for continuing the conversation. Keep names, facts, decisions, open " +
+  "questions and anything the user asked to remember. Write plain prose " +
+  "of at most a few paragraphs.";
+
+interface CompactionCacheEntry {
+  omitted: number;
+  /** Hash of the omitted messages, to detect edited or branched history */
+  fingerprint: string;
+  summary: string | null;
+}
+
+// Last cut per chat, kept on globalThis like the other server singletons.
+// A miss (another instance, a restart) only costs a new summary.
+const MAX_CACHE_ENTRIES = 1000;
+const globalForContext = globalThis as unknown as {
+  compactionCache?: Map<string, CompactionCacheEntry>;
+};
+
+function getCompactionCache() {
+  globalForContext.compactionCache ??= new Map();
+  return globalForContext.compactionCache;
+}
+
+export interface FitToContextResult {
+  messages: ProviderMessage[];
+  system?: string;
+  /** Set when earlier messages were left out */
+  compaction?: ContextCompaction;
+  /** Tokens used to write the summary, billed with the reply */
+  usage: { inputTokens: number; outputTokens: number };
+}
+
+function getText(message: ProviderMessage): string {
+  if (typeof message.content === "string") return message.content;
+  if (!message.content) return "";
+  return message.content
+    .map((part: any) =>
+      typeof part?.text === "string" ? part.text : "[attachment]"
+    )
+    .join("\n");
+}
+
+function fingerprint(messages: ProviderMessage[]): string {
+  const hash = createHash("sha256");
+  for (const message of messages) {
+    hash.update(`${message.role}\0${getText(message)}\0`);
+  }
+  return hash.digest("hex");
+}
+
+function withSummary(system: string | undefined, summary: string | null) {
+  if (!summary) return system;
+  return [system, `Summary of the earlier conversation:\n${summary}`]
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+/**
+ * Returns the messages and system prompt to send for one reply, compacting
+ * the history when its estimate exceeds `model`'s context window. Throws
+ * `invalid_request` when the latest message does not fit on its own.
+ */
+export async function fitToContext({
+  provider,
+  model,
+  messages,
+  system,
+  parameters,
+  apiKey,
+  cacheKey,
+  signal,
+}: {
+  provider: ChatProvider;
+  model: ModelConfig;
+  messages: ProviderMessage[];
+  system?: string;
+  parameters?: GenerationParameters;
+  apiKey: string;
+  /** Chat id; compactions are recomputed every turn without one */
+  cacheKey?: string;
+  signal?: AbortSignal;
+}): Promise<FitToContextResult> {
+  const noUsage = { inputTokens: 0, outputTokens: 0 };
+  const budget =
+    model.limits.contextWindow * SAFETY_MARGIN -
+    (parameters?.maxTokens ?? DEFAULT_MAX_TOKENS) -
+    estimateTokens(system ?? "");
+
+  if (estimateMessageTokens(messages) <= budget) {
+    return { messages, system, usage: noUsage };
+  }
+
+  const latest = messages[messages.length - 1];
+  if (estimateProviderMessageTokens(latest) + SUMMARY_MAX_TOKENS > budget) {
+    throw new ChatError(
+      "invalid_request",
+      `This message is too long for ${model.name}. Shorten it or remove attachments.`
+    );
+  }
+
+  // Reuse the previous cut while the history before it is unchanged and
+  // what follows it still fits
+  const cache = getCompactionCache();
+  const cached = cacheKey ? cache.get(cacheKey) : undefined;
+  const cachedValid =
+    cached !== undefined &&
+    cached.omitted < messages.length &&
+    fingerprint(messages.slice(0, cached.omitted)) === cached.fingerprint;
+
+  if (
+    cachedValid &&
+    estimateMessageTokens(messages.slice(cached.omitted)) +
+      estimateTokens(cached.summary ?? "") <=
+      budget
+  ) {
+    return {
+      messages: messages.slice(cached.omitted),
+      system: withSummary(system, cached.summary),
+      compaction: {
+        omitted: cached.omitted,
+        summarized: cached.summary !== null,
+      },
+      usage: noUsage,
+    };
+  }
+
+  // Keep the most recent messages that fit the target, starting on a user
+  // turn since some providers require the history to begin with one
+  const target = budget * COMPACT_TARGET - SUMMARY_MAX_TOKENS;
+  let omitted = messages.length - 1;
+  let kept = estimateProviderMessageTokens(latest);
+  for (let i = messages.length - 2; i >= 0; i--) {
+    kept += estimateProviderMessageTokens(messages[i]);
+    if (kept > target) break;
+    if (messages[i].role === "user") omitted = i;
+  }
+
+  // Extend the previous summary rather than summarizing from scratch
+  const previous = cachedValid && cached.omitted <= omitted ? cached : null;
+  const transcript = [
+    previous?.summary
+      ? `Summary of the conversation so far:\n${previous.summary}`
+      : "",
+    ...messages
+      .slice(previous?.omitted ?? 0, omitted)
+      .map((message) => `${message.role}: ${getText(message)}`),
+  ]
+    .filter(Boolean)
+    .join("\n\n")
+    // The summary request must fit the window too; keep its most recent part
+    .slice(-Math.floor(budget * CHARS_PER_TOKEN));
+
+  let summary: string | null = null;
+  let usage = noUsage;
+  try {
+    let text = "";
+    const result = await provider.streamChat(
+      {
+        model: model.id,
+        messages: [{ role: "user", content: transcript }],
+        apiKey,
+        system: SUMMARY_PROMPT,
+        parameters: { maxTokens: SUMMARY_MAX_TOKENS },
+        signal,
+      },
+      (content) => {
+        text += content;
+      }
+    );
+    usage = {
+      inputTokens: result.inputTokens,
+      outputTokens: result.outputTokens,
+    };
+    summary = text.trim() || null;
+  } catch (error) {
+    // Without a summary the earlier turns are simply left out
+    console.error("Failed to summarize chat history:", error);
+  }
+
+  if (cacheKey) {
+    cache.delete(cacheKey);
+    cache.set(cacheKey, {
+      omitted,
+      fingerprint: fingerprint(messages.slice(0, omitted)),
+      summary,
+    });
+    // Maps iterate in insertion order, so the first key is the oldest
+    if (cache.size > MAX_CACHE_ENTRIES) {
+      cache.delete(cache.keys().next().value!);
+    }
+  }
+
+  return {
+    messages: messages.slice(omitted),
+    system: withSummary(system, summary),
+    compaction: { omitted, summarized: summary !== null },
+    usage,
+  };
+}
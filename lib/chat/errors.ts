@@ -0,0 +1,117 @@
+// Error envelope shared by /api/chat and the chat page. Errors before the
+// stream starts are sent as JSON `{ error: { code, message } }` with the
+// status below; errors after it started are sent as `{ type: "error", error }`
+// SSE events, since the status line has already been written.
+
+export type ChatErrorCode =
+  | "invalid_request"
+  | "unauthorized"
+  | "not_found"
+  | "model_not_supported"
+  | "not_entitled"
+  | "in_progress"
+  | "rate_limited"
+  | "provider_error"
+  | "internal_error";
+
+const STATUS_BY_CODE: Record<ChatErrorCode, number> = {
+  invalid_request: 400,
+  unauthorized: 401,
+  not_found: 404,
+  model_not_supported: 400,
+  not_entitled: 403,
+  in_progress: 409,
+  rate_limited: 429,
+  provider_error: 502,
+  internal_error: 500,
+};
+
+export interface ChatErrorBody {
+  code: ChatErrorCode;
+  message: string;
+  /** Seconds to wait before retrying, for `rate_limited` */
+  retryAfter?: number;
+}
+
+export class ChatError extends Error {
+  readonly code: ChatErrorCode;
+  readonly retryAfter?: number;
+
+  constructor(
+    code: ChatErrorCode,
+    message: string,
+    options?: ErrorOptions & { retryAfter?: number }
+  ) {
+    super(message, options);
+    this.name = "ChatError";
+    this.code = code;
+    this.retryAfter = options?.retryAfter;
+  }
+
+  get status(): number {
+    return STATUS_BY_CODE[this.code];
+  }
+
+  toJSON(): ChatErrorBody {
+    return this.retryAfter === undefined
+      ? { code: this.code, message: this.message }
+      : { code: this.code, message: this.message, retryAfter: this.retryAfter };
+  }
+}
+
+/**
+ * JSON response carrying `error` with its status, for route handlers. Sets
+ * Retry-After when the error has a retry delay.
+ */
+export function chatErrorResponse(error: ChatError): Response {
+  const headers: HeadersInit =
+    error.retryAfter === undefined
+      ? {}
+      : { "Retry-After": String(error.retryAfter) };
+  return Response.json(
+    { error: error.toJSON() },
+    { status: error.status, headers }
+  );
+}
+
+function isChatErrorCode(code: unknown): code is ChatErrorCode {
+  return typeof code === "string" && code in STATUS_BY_CODE;
+}
+
+/**
+ * Wraps an error thrown while talking to a provider. The provider SDKs set
+ * `status` on HTTP errors, which lets upstream rate limits surface as such.
+ */
+export function toProviderError(error: unknown): ChatError {
+  if (error instanceof ChatError) return error;
+
+  const status = (error as { status?: unknown } | null)?.status;
+  if (status === 429) {
+    return new ChatError(
+      "rate_limited",
+      "The model provider is rate limiting requests. Try again shortly.",
+      { cause: error }
+    );
+  }
+
+  return new ChatError(
+    "provider_error",
+    error instanceof Error ? error.message : "The model provider failed",
+    { cause: error }
+  );
+}
+
+/**
+ * Reads an error envelope from a response body or SSE event, falling back
+ * to `internal_error` for anything that does not match it.
+ */
+export function parseChatError(body: unknown): ChatError {
+  const error = (body as { error?: Partial<ChatErrorBody> } | null)?.error;
+  if (error && isChatErrorCode(error.code)) {
+    return new ChatError(error.code, error.message ?? error.code, {
+      retryAfter:
+        typeof error.retryAfter === "number" ? error.retryAfter : undefined,
+    });
+  }
+  return new ChatError("internal_error", "Something went wrong");
+}
@@ -0,0 +1,147 @@
+import { getActivePath } from "./tree";
+import type { Attachment, Chat } from "./types";
+
+// Conversation export. Markdown and fine-tuning JSONL contain the branch
+// currently shown; the JSON format keeps every branch and field so that it
+// can be imported again, see lib/chat/import.ts.
+
+export type ExportFormat = "markdown" | "json" | "jsonl";
+
+export const EXPORT_FORMATS: Record<
+  ExportFormat,
+  { label: string; extension: string; mimeType: string }
+> = {
+  markdown: {
+    label: "Markdown",
+    extension: "md",
+    mimeType: "text/markdown",
+  },
+  json: {
+    label: "JSON (re-importable)",
+    extension: "json",
+    mimeType: "application/json",
+  },
+  jsonl: {
+    label: "OpenAI fine-tuning JSONL",
+    extension: "jsonl",
+    mimeType: "application/jsonl",
+  },
+};
+
+/** Identifies files written by `toExportJson`. */
+export const EXPORT_FILE_FORMAT = "lumen-chat-export";
+export const EXPORT_FILE_VERSION = 1;
+
+export interface ExportFile {
+  format: typeof EXPORT_FILE_FORMAT;
+  version: typeof EXPORT_FILE_VERSION;
+  exportedAt: string;
+  chats: Chat[];
+}
+
+// Files stored in the "files" bucket are re-downloaded through their
+// `supabasePath`; only files that exist nowhere else keep their data
+function exportAttachments(attachments: Attachment[] | undefined) {
+  if (!attachments) return undefined;
+  return attachments.map((attachment) =>
+    attachment.supabasePath ? { ...attachment, data: "" } : attachment
+  );
+}
+
+function chatToMarkdown(chat: Chat): string {
+  const lines = [`# ${chat.title}`, ""];
+  if (chat.systemPrompt) {
+    lines.push(`> **System prompt:** ${chat.systemPrompt}`, "");
+  }
+
+  for (const message of getActivePath(chat)) {
+    const time = new Date(message.timestamp).toLocaleString();
+    const heading =
+      message.role === "user"
+        ? "User"
+        : `Assistant${message.model ? ` (${message.model})` : ""}`;
+    lines.push(`## ${heading}`, "", `_${time}_`, "", message.content, "");
+
+    if (message.attachments?.length) {
+      lines.push(
+        ...message.attachments.map(
+          (attachment) => `- Attachment: ${attachment.name}`
+        ),
+        ""
+      );
+    }
+  }
+
+  return lines.join("\n");
+}
+
+function chatToFineTuningLine(chat: Chat): string | null {
+  const path = getActivePath(chat).filter((message) => message.content);
+  // Examples end on the reply the model is trained to give
+  const end = path.findLastIndex((message) => message.role === "assistant");
+  if (end === -1) return null;
+
+  return JSON.stringify({
+    messages: [
+      ...(chat.systemPrompt
+        ? [{ role: "system", content: chat.systemPrompt }]
+        : []),
+      ...path.slice(0, end + 1).map((message) => ({
+        role: message.role,
+        content: message.content,
+      })),
+    ],
+  });
+}
+
+export function toExportJson(chats: Chat[]): string {
+  const file: ExportFile = {
+    format: EXPORT_FILE_FORMAT,
+    version: EXPORT_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    chats: chats.map((chat) => ({
+      ...chat,
+      messages: chat.messages.map((message) => ({
+        ...message,
+        attachments: exportAttachments(message.attachments),
+      })),
+    })),
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Serializes `chats` in `format`. JSONL leaves out chats without a reply,
+ * since every fine-tuning example needs an assistant turn.
+ */
+export function exportChats(chats: Chat[], format: ExportFormat): string {
+  switch (format) {
+    case "markdown":
+      return chats.map(chatToMarkdown).join("\n---\n\n");
+    case "json":
+      return toExportJson(chats);
+    case "jsonl":
+      return chats
+        .map(chatToFineTuningLine)
+        .filter((line): line is string => line !== null)
+        .map((line) => `${line}\n`)
+        .join("");
+  }
+}
+
+/** Saves `chats` as a file through a temporary download link. */
+export function downloadChats(
+  chats: Chat[],
+  format: ExportFormat,
+  name: string
+) {
+  const { extension, mimeType } = EXPORT_FORMATS[format];
+  const blob = new Blob([exportChats(chats, format)], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${name.replace(/[^\w\- ]+/g, "").trim() || "chats"}.${extension}`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
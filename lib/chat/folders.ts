@@ -0,0 +1,101 @@
+import { v4 as uuidv4 } from "uuid";
+import type { Chat, ChatFolder, ChatsData } from "./types";
+
+// Sidebar organization: pinned chats, folders and the archive. Everything is
+// stored on ChatsData, so these helpers return a new copy to save through
+// SyncProvider. Chats keep their position in `chats`; the sidebar orders
+// them by `updatedAt` instead.
+
+export interface ChatGroups {
+  pinned: Chat[];
+  folders: Array<{ folder: ChatFolder; chats: Chat[] }>;
+  /** Chats that are neither pinned, filed nor archived */
+  unfiled: Chat[];
+  archived: Chat[];
+  /** Deleted chats, see lib/chat/trash.ts */
+  trash: Chat[];
+}
+
+/** Most recently updated first. Dates may be strings after a JSON round trip. */
+export function sortByUpdatedAt(chats: Chat[]): Chat[] {
+  return [...chats].sort(
+    (a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
+  );
+}
+
+/**
+ * Splits chats into the sidebar sections. A chat appears in exactly one:
+ * the trash wins over the archive, the archive over pinned, and pinned over
+ * its folder. Folders are listed
+ * by name and always included, even when empty, so they can be dropped on.
+ */
+export function groupChats(data: ChatsData): ChatGroups {
+  const folders = [...(data.folders ?? [])].sort((a, b) =>
+    a.name.localeCompare(b.name)
+  );
+  const folderIds = new Set(folders.map((folder) => folder.id));
+  const byFolder = new Map<string, Chat[]>();
+
+  const groups: ChatGroups = {
+    pinned: [],
+    folders: [],
+    unfiled: [],
+    archived: [],
+    trash: [],
+  };
+
+  for (const chat of sortByUpdatedAt(data.chats)) {
+    if (chat.deletedAt) {
+      groups.trash.push(chat);
+    } else if (chat.archivedAt) {
+      groups.archived.push(chat);
+    } else if (chat.pinned) {
+      groups.pinned.push(chat);
+    } else if (chat.folderId && folderIds.has(chat.folderId)) {
+      const chats = byFolder.get(chat.folderId) ?? [];
+      chats.push(chat);
+      byFolder.set(chat.folderId, chats);
+    } else {
+      groups.unfiled.push(chat);
+    }
+  }
+
+  groups.folders = folders.map((folder) => ({
+    folder,
+    chats: byFolder.get(folder.id) ?? [],
+  }));
+  return groups;
+}
+
+export function createFolder(data: ChatsData, name: string): ChatsData {
+  const folder: ChatFolder = {
+    id: uuidv4(),
+    name,
+    createdAt: new Date(),
+  };
+  return { ...data, folders: [...(data.folders ?? []), folder] };
+}
+
+export function renameFolder(
+  data: ChatsData,
+  folderId: string,
+  name: string
+): ChatsData {
+  return {
+    ...data,
+    folders: (data.folders ?? []).map((folder) =>
+      folder.id === folderId ? { ...folder, name } : folder
+    ),
+  };
+}
+
+/** Removes a folder; its chats move back to the unfiled list. */
+export function deleteFolder(data: ChatsData, folderId: string): ChatsData {
+  return {
+    ...data,
+    folders: (data.folders ?? []).filter((folder) => folder.id !== folderId),
+    chats: data.chats.map((chat) =>
+      chat.folderId === folderId ? { ...chat, folderId: null } : chat
+    ),
+  };
+}
@@ -0,0 +1,137 @@
+import { describe, expect, it } from "vitest";
+import { EXPORT_FILE_FORMAT, EXPORT_FILE_VERSION } from "./export";
+import { parseImportFile } from "./import";
+
+const ids = {
+  a: "00000000-0000-4000-8000-00000000000a",
+  b: "00000000-0000-4000-8000-00000000000b",
+  c: "00000000-0000-4000-8000-00000000000c",
+  missing: "00000000-0000-4000-8000-0000000000ff",
+};
+
+function message(id: string, parentId: string | null) {
+  return {
+    id,
+    role: "user",
+    content: `Message ${id}`,
+    timestamp: "2026-01-01T00:00:00.000Z",
+    parentId,
+  };
+}
+
+function exportFile(
+  messages: ReturnType<typeof message>[],
+  currentLeafId: string | null = null
+) {
+  return JSON.stringify({
+    format: EXPORT_FILE_FORMAT,
+    version: EXPORT_FILE_VERSION,
+    chats: [
+      {
+        id: "chat",
+        title: "Imported",
+        messages,
+        currentLeafId,
+        createdAt: "2026-01-01T00:00:00.000Z",
+        updatedAt: "2026-01-01T00:00:00.000Z",
+      },
+    ],
+  });
+}
+
+describe("parseImportFile", () => {
+  it("imports a branching tree with fresh ids and the same structure", () => {
+    const result = parseImportFile(
+      exportFile(
+        [message(ids.a, null), message(ids.b, ids.a), message(ids.c, ids.a)],
+        ids.c
+      )
+    );
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    const [chat] = result.chats;
+    const [a, b, c] = chat.messages;
+    expect(chat.id).not.toBe("chat");
+    expect([a.id, b.id, c.id]).not.toContain(ids.a);
+    expect(a.parentId).toBeNull();
+    expect(b.parentId).toBe(a.id);
+    expect(c.parentId).toBe(a.id);
+    expect(chat.currentLeafId).toBe(c.id);
+  });
+
+  it("rejects messages that form a cycle", () => {
+    const result = parseImportFile(
+      exportFile([
+        message(ids.a, null),
+        message(ids.b, ids.c),
+        message(ids.c, ids.b),
+      ])
+    );
+    expect(result).toEqual({
+      success: false,
+      error: 'Chat "Imported": messages form a cycle',
+    });
+  });
+
+  it("rejects a message that is its own parent", () => {
+    const result = parseImportFile(exportFile([message(ids.a, ids.a)]));
+    expect(result.success).toBe(false);
+  });
+
+  it("rejects duplicate message ids", () => {
+    const result = parseImportFile(
+      exportFile([message(ids.a, null), message(ids.a, null)])
+    );
+    expect(result).toEqual({
+      success: false,
+      error: `Chat "Imported": duplicate message id ${ids.a}`,
+    });
+  });
+
+  it("turns a missing parent or leaf into a root", () => {
+    const result = parseImportFile(
+      exportFile(
+        [message(ids.a, null), message(ids.b, ids.missing)],
+        ids.missing
+      )
+    );
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    const [chat] = result.chats;
+    expect(chat.messages[1].parentId).toBeNull();
+    expect(chat.currentLeafId).toBeNull();
+  });
+
+  it("imports fine-tuning JSONL as linear chats", () => {
+    const result = parseImportFile(
+      [
+        JSON.stringify({
+          messages: [
+            { role: "system", content: "Be brief" },
+            { role: "user", content: "Hi" },
+            { role: "assistant", content: "Hello" },
+          ],
+        }),
+        "",
+        JSON.stringify({ messages: [{ role: "user", content: "Again" }] }),
+      ].join("\n")
+    );
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    const [first, second] = result.chats;
+    expect(first.systemPrompt).toBe("Be brief");
+    expect(first.messages[1].parentId).toBe(first.messages[0].id);
+    expect(first.currentLeafId).toBe(first.messages[1].id);
+    expect(second.title).toBe("Again");
+  });
+
+  it("names the JSONL line that fails", () => {
+    expect(parseImportFile('{"messages": []}\nnot json')).toEqual({
+      success: false,
+      error: expect.stringMatching(/^Line 1: /),
+    });
+  });
+});
@@ -0,0 +1,201 @@
+import { z } from "zod";
+import { v4 as uuidv4 } from "uuid";
+import { EXPORT_FILE_FORMAT, EXPORT_FILE_VERSION } from "./export";
+import { formatIssues, storedMessageSchema } from "./schema";
+import type { Chat, ChatsData, Message } from "./types";
+
+// Conversation import: the JSON files written by lib/chat/export.ts and
+// OpenAI fine-tuning JSONL. Imported chats always get fresh ids, so they
+// can never collide with existing chats or messages, or with each other.
+
+const importedChatSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  titleSource: z.enum(["default", "generated", "manual"]).optional(),
+  messages: z.array(storedMessageSchema),
+  currentLeafId: z.string().nullable().optional(),
+  systemPrompt: z.string().optional(),
+  parameters: z
+    .object({
+      temperature: z.number().optional(),
+      maxTokens: z.number().optional(),
+      topP: z.number().optional(),
+    })
+    .optional(),
+  createdAt: z.coerce.date(),
+  updatedAt: z.coerce.date(),
+});
+
+const exportFileSchema = z.object({
+  format: z.literal(EXPORT_FILE_FORMAT),
+  version: z.literal(EXPORT_FILE_VERSION),
+  chats: z.array(importedChatSchema),
+});
+
+const fineTuningLineSchema = z.object({
+  messages: z
+    .array(
+      z.object({
+        role: z.enum(["system", "user", "assistant"]),
+        content: z.string(),
+      })
+    )
+    .min(1),
+});
+
+export type ImportResult =
+  | { success: true; chats: Chat[] }
+  | { success: false; error: string };
+
+/**
+ * Checks that a chat's messages form a tree: ids are unique and following
+ * `parentId` never comes back to a message. Returns an error or null.
+ */
+function findTreeError(chat: Chat): string | null {
+  const parents = new Map<string, string | null | undefined>();
+  for (const message of chat.messages) {
+    if (parents.has(message.id)) {
+      return `Chat "${chat.title}": duplicate message id ${message.id}`;
+    }
+    parents.set(message.id, message.parentId);
+  }
+
+  // Messages known to lead back to a root
+  const rooted = new Set<string>();
+  for (const message of chat.messages) {
+    const walk = new Set<string>();
+    let id: string | null | undefined = message.id;
+    while (id && parents.has(id) && !rooted.has(id)) {
+      if (walk.has(id)) {
+        return `Chat "${chat.title}": messages form a cycle`;
+      }
+      walk.add(id);
+      id = parents.get(id);
+    }
+    for (const visited of walk) rooted.add(visited);
+  }
+  return null;
+}
+
+/**
+ * Gives a chat and its messages new ids, keeping the branch structure.
+ * Parents and leaves that are not in the chat become null.
+ */
+function withFreshIds(chat: Chat): Chat {
+  const ids = new Map(chat.messages.map((m) => [m.id, uuidv4()]));
+  const remap = (id: string | null | undefined) =>
+    id ? (ids.get(id) ?? null) : id;
+
+  return {
+    ...chat,
+    id: uuidv4(),
+    messages: chat.messages.map((message) => ({
+      ...message,
+      id: ids.get(message.id)!,
+      parentId: remap(message.parentId),
+    })),
+    currentLeafId: remap(chat.currentLeafId),
+  };
+}
+
+function fromFineTuningLine(
+  line: z.infer<typeof fineTuningLineSchema>,
+  importedAt: Date
+): Chat {
+  const systemPrompt = line.messages
+    .filter((message) => message.role === "system")
+    .map((message) => message.content)
+    .join("\n\n");
+
+  let parentId: string | null = null;
+  const messages: Message[] = [];
+  for (const { role, content } of line.messages) {
+    if (role === "system") continue;
+    const message: Message = {
+      id: uuidv4(),
+      role,
+      content,
+      timestamp: importedAt,
+      parentId,
+    };
+    messages.push(message);
+    parentId = message.id;
+  }
+
+  const firstUser = messages.find((message) => message.role === "user");
+  return {
+    id: uuidv4(),
+    title: firstUser?.content.substring(0, 50) || "Imported chat",
+    messages,
+    currentLeafId: parentId,
+    systemPrompt: systemPrompt || undefined,
+    createdAt: importedAt,
+    updatedAt: importedAt,
+  };
+}
+
+/**
+ * Parses an export file or fine-tuning JSONL into chats with fresh ids.
+ * JSONL errors name the line they occur on.
+ */
+export function parseImportFile(text: string): ImportResult {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    json = undefined;
+  }
+
+  if (json && typeof json === "object" && "format" in json) {
+    const file = exportFileSchema.safeParse(json);
+    if (!file.success) {
+      return { success: false, error: formatIssues(file.error) };
+    }
+    // zod infers `unknown` fields such as tool arguments as optional, which
+    // is the only difference from the Chat type
+    const chats = file.data.chats as Chat[];
+    for (const chat of chats) {
+      const error = findTreeError(chat);
+      if (error) return { success: false, error };
+    }
+    return { success: true, chats: chats.map(withFreshIds) };
+  }
+
+  const importedAt = new Date();
+  const chats: Chat[] = [];
+  const lines = text.split(/\r?\n/);
+  for (const [index, raw] of lines.entries()) {
+    if (!raw.trim()) continue;
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw);
+    } catch {
+      return { success: false, error: `Line ${index + 1}: not valid JSON` };
+    }
+    const line = fineTuningLineSchema.safeParse(parsed);
+    if (!line.success) {
+      return {
+        success: false,
+        error: `Line ${index + 1}: ${formatIssues(line.error)}`,
+      };
+    }
+    chats.push(fromFineTuningLine(line.data, importedAt));
+  }
+
+  if (chats.length === 0) {
+    return { success: false, error: "The file contains no chats" };
+  }
+  return { success: true, chats };
+}
+
+/** Adds imported chats to the top of the list, opening the first one. */
+export function mergeImportedChats(data: ChatsData, chats: Chat[]): ChatsData {
+  const existing = new Set(data.chats.map((chat) => chat.id));
+  const added = chats.filter((chat) => !existing.has(chat.id));
+  return {
+    ...data,
+    chats: [...added, ...data.chats],
+    currentChatId: added[0]?.id ?? data.currentChatId,
+  };
+}
@@ -0,0 +1,53 @@
+import { z } from "zod";
+import type { ModelConfig } from "@/lib/constants";
+import type { GenerationParameters } from "./types";
+import { formatIssues } from "./schema";
+
+// Used when a provider requires a max tokens value and the chat sets none
+export const DEFAULT_MAX_TOKENS = 1024;
+
+export function parametersSchema(model: ModelConfig) {
+  return z
+    .object({
+      temperature: z.number().min(0).max(model.limits.maxTemperature),
+      maxTokens: z.number().int().min(1).max(model.limits.maxOutputTokens),
+      topP: z.number().min(0).max(1),
+    })
+    .partial()
+    .strict();
+}
+
+/** Validates request parameters against the limits declared for `model`. */
+export function validateParameters(
+  parameters: unknown,
+  model: ModelConfig
+):
+  | { success: true; data: GenerationParameters }
+  | { success: false; error: string } {
+  const result = parametersSchema(model).safeParse(parameters ?? {});
+  if (!result.success) {
+    return {
+      success: false,
+      error: formatIssues(result.error),
+    };
+  }
+  return { success: true, data: result.data };
+}
+
+/**
+ * Clamps saved parameters to `model`'s limits, e.g. after switching from a
+ * model that allows a higher temperature.
+ */
+export function clampParameters(
+  parameters: GenerationParameters | undefined,
+  model: ModelConfig
+): GenerationParameters {
+  const clamp = (value: number | undefined, min: number, max: number) =>
+    value === undefined ? undefined : Math.min(Math.max(value, min), max);
+
+  return {
+    temperature: clamp(parameters?.temperature, 0, model.limits.maxTemperature),
+    maxTokens: clamp(parameters?.maxTokens, 1, model.limits.maxOutputTokens),
+    topP: clamp(parameters?.topP, 0, 1),
+  };
+}
@@ -0,0 +1,79 @@
+import { z } from "zod";
+
+// Request body of POST /api/chat. Generation parameters depend on the model,
+// so they are checked separately by `validateParameters` once it is known.
+
+const providerMessageSchema = z.object({
+  role: z.enum(["user", "assistant", "system"]),
+  // Multimodal parts are provider specific; see formatMessagesForProvider
+  content: z.union([z.string(), z.array(z.unknown())]),
+});
+
+const attachmentMetadataSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  type: z.string(),
+  size: z.number(),
+  data: z.string(),
+  mimeType: z.string(),
+  supabasePath: z.string().optional(),
+});
+
+const messageSchema = z.object({
+  id: z.string().uuid(),
+  role: z.enum(["user", "assistant"]),
+  content: z.string(),
+  timestamp: z.coerce.date(),
+  model: z.string().optional(),
+  attachments: z.array(attachmentMetadataSchema).optional(),
+  stopped: z.boolean().optional(),
+  parentId: z.string().uuid().nullable().optional(),
+});
+
+// A message with everything the client stores on it, for imports and shares
+export const storedMessageSchema = messageSchema.extend({
+  toolCalls: z
+    .array(
+      z.object({
+        id: z.string(),
+        name: z.string(),
+        arguments: z.unknown(),
+        result: z.unknown().optional(),
+        isError: z.boolean().optional(),
+      })
+    )
+    .optional(),
+  contextCompaction: z
+    .object({ omitted: z.number().int(), summarized: z.boolean() })
+    .optional(),
+});
+
+export const chatRequestSchema = z.object({
+  messages: z.array(providerMessageSchema).min(1),
+  model: z.string().default("gpt-3.5-turbo"),
+  // One key per reply attempt so retries are never billed twice. It doubles
+  // as the id of the assistant message.
+  idempotencyKey: z
+    .string()
+    .uuid()
+    .default(() => crypto.randomUUID()),
+  // Optional: persist the exchange to the conversations tables.
+  // `userMessage` is the message being answered.
+  chatId: z.string().uuid().optional(),
+  userMessage: messageSchema.optional(),
+  systemPrompt: z.string().optional(),
+  parameters: z.unknown().optional(),
+});
+
+export type ChatRequest = z.infer<typeof chatRequestSchema>;
+
+/** Formats zod issues as `path: message` pairs for an error envelope. */
+export function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .map((issue) =>
+      issue.path.length > 0
+        ? `${issue.path.join(".")}: ${issue.message}`
+        : issue.message
+    )
+    .join("; ");
+}
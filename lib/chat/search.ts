@@ -0,0 +1,157 @@
+import type { Chat } from "./types";
+
+// Message search. The client index covers the chats kept by SyncProvider and
+// answers instantly; signed-in users also get Postgres full-text results
+// from /api/conversations/search, which the chat page merges in.
+
+export interface SearchResult {
+  chatId: string;
+  messageId: string;
+  /** Excerpt of the message around the first match */
+  snippet: string;
+  /** [start, end) offsets of the matched words in `snippet` */
+  highlights: Array<[number, number]>;
+  timestamp: Date;
+}
+
+export interface SearchIndex {
+  search(query: string, limit?: number): SearchResult[];
+}
+
+// Characters shown on each side of the first match
+const SNIPPET_CONTEXT = 60;
+
+const DEFAULT_LIMIT = 50;
+
+// Words as Postgres splits them for the 'simple' configuration, roughly
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+interface IndexedMessage {
+  chatId: string;
+  messageId: string;
+  content: string;
+  timestamp: Date;
+}
+
+function makeSnippet(content: string, terms: string[]) {
+  const lower = content.toLowerCase();
+  const first = Math.min(
+    ...terms.map((term) => {
+      const index = lower.indexOf(term);
+      return index === -1 ? Infinity : index;
+    })
+  );
+  const start = Number.isFinite(first)
+    ? Math.max(0, first - SNIPPET_CONTEXT)
+    : 0;
+  const end = Math.min(content.length, start + SNIPPET_CONTEXT * 3);
+
+  const prefix = start > 0 ? "…" : "";
+  const snippet =
+    prefix +
+    content.slice(start, end).replace(/\s+/g, " ") +
+    (end < content.length ? "…" : "");
+
+  // Highlight words that start with a query term, as the index matched them
+  const highlights: Array<[number, number]> = [];
+  for (const match of snippet.matchAll(/[\p{L}\p{N}]+/gu)) {
+    const word = match[0].toLowerCase();
+    if (terms.some((term) => word.startsWith(term))) {
+      highlights.push([match.index, match.index + match[0].length]);
+    }
+  }
+
+  return { snippet, highlights };
+}
+
+/**
+ * Builds an inverted index over every message of `chats`, branches
+ * included. A query matches messages containing a word that starts with
+ * each of its terms; results are ordered newest first.
+ */
+export function buildSearchIndex(chats: Chat[]): SearchIndex {
+  const messages: IndexedMessage[] = [];
+  const postings = new Map<string, number[]>();
+
+  for (const chat of chats) {
+    for (const message of chat.messages) {
+      const position = messages.length;
+      messages.push({
+        chatId: chat.id,
+        messageId: message.id,
+        content: message.content,
+        timestamp: new Date(message.timestamp),
+      });
+      for (const word of new Set(tokenize(message.content))) {
+        const list = postings.get(word);
+        if (list) list.push(position);
+        else postings.set(word, [position]);
+      }
+    }
+  }
+
+  const vocabulary = [...postings.keys()];
+
+  const lookup = (term: string) => {
+    const positions = new Set<number>();
+    for (const word of vocabulary) {
+      if (!word.startsWith(term)) continue;
+      for (const position of postings.get(word)!) positions.add(position);
+    }
+    return positions;
+  };
+
+  return {
+    search(query, limit = DEFAULT_LIMIT) {
+      const terms = [...new Set(tokenize(query))];
+      if (terms.length === 0) return [];
+
+      const [first, ...rest] = terms.map(lookup);
+      return [...first]
+        .filter((position) =>
+          rest.every((positions) => positions.has(position))
+        )
+        .map((position) => messages[position])
+        .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
+        .slice(0, limit)
+        .map((message) => ({
+          chatId: message.chatId,
+          messageId: message.messageId,
+          timestamp: message.timestamp,
+          ...makeSnippet(message.content, terms),
+        }));
+    },
+  };
+}
+
+// Delimiters search_messages wraps around matches in its snippets
+const START_SEL = "\u0002";
+const STOP_SEL = "\u0003";
+
+/** Converts a search_messages snippet to plain text and highlight offsets. */
+export function parseHighlightedSnippet(marked: string): {
+  snippet: string;
+  highlights: Array<[number, number]>;
+} {
+  let snippet = "";
+  const highlights: Array<[number, number]> = [];
+  let start = -1;
+
+  for (const char of marked) {
+    if (char === START_SEL) {
+      start = snippet.length;
+    } else if (char === STOP_SEL) {
+      if (start !== -1) highlights.push([start, snippet.length]);
+      start = -1;
+    } else if (/\s/.test(char)) {
+      // Collapse whitespace as the client snippets do
+      if (!snippet.endsWith(" ")) snippet += " ";
+    } else {
+      snippet += char;
+    }
+  }
+
+  return { snippet, highlights };
+}
@@ -0,0 +1,61 @@
+import { AVAILABLE_MODELS, TITLE_MODEL } from "@/lib/constants";
+import { getProvider } from "@/lib/providers";
+
+const TITLE_PROMPT =
+  "Write a title of at most six words for the conversation below. Reply " +
+  "with the title only, without quotes or a trailing period, in the " +
+  "language of the conversation.";
+
+const MAX_TITLE_LENGTH = 60;
+
+// Only the start of each message is needed to name the conversation
+const MAX_EXCERPT_LENGTH = 2000;
+
+function cleanTitle(text: string): string {
+  return text
+    .trim()
+    .split("\n")[0]
+    .replace(/^(title:\s*)/i, "")
+    .replace(/^["'“”‘’]+|["'“”‘’]+$/g, "")
+    .replace(/\.$/, "")
+    .trim()
+    .slice(0, MAX_TITLE_LENGTH);
+}
+
+/**
+ * Names a chat from its first exchange with TITLE_MODEL, using the server's
+ * key for that model's provider. Titles are not metered. Returns null when
+ * the provider is not configured or returns nothing usable.
+ */
+export async function generateTitle(exchange: {
+  user: string;
+  assistant: string;
+}): Promise<string | null> {
+  const model = AVAILABLE_MODELS.find((m) => m.id === TITLE_MODEL);
+  const provider = model && getProvider(model.provider);
+  const apiKey = provider && process.env[provider.apiKeyEnvVar];
+  if (!model || !provider || !apiKey) return null;
+
+  let text = "";
+  await provider.streamChat(
+    {
+      model: model.id,
+      messages: [
+        {
+          role: "user",
+          content:
+            `User: ${exchange.user.slice(0, MAX_EXCERPT_LENGTH)}\n\n` +
+            `Assistant: ${exchange.assistant.slice(0, MAX_EXCERPT_LENGTH)}`,
+        },
+      ],
+      apiKey,
+      system: TITLE_PROMPT,
+      parameters: { maxTokens: 20, temperature: 0.3 },
+    },
+    (content) => {
+      text += content;
+    }
+  );
+
+  return cleanTitle(text) || null;
+}
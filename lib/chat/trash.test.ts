@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import {
+  TRASH_RETENTION_DAYS,
+  getExpiredChats,
+  moveToTrash,
+  purgeChats,
+  purgeDate,
+  restoreFromTrash,
+} from "./trash";
+import type { Attachment, Chat, ChatsData } from "./types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date("2026-03-01T12:00:00.000Z");
+
+function chat(
+  id: string,
+  deletedAt: Date | null = null,
+  attachments: Attachment[] = []
+): Chat {
+  return {
+    id,
+    title: id,
+    messages: [
+      {
+        id: `${id}-message`,
+        role: "user",
+        content: "Hi",
+        timestamp: new Date(0),
+        attachments,
+      },
+    ],
+    deletedAt,
+    createdAt: new Date(0),
+    updatedAt: new Date(0),
+  };
+}
+
+function attachment(id: string, supabasePath?: string): Attachment {
+  return {
+    id,
+    name: `${id}.png`,
+    type: "image",
+    size: 1,
+    data: "",
+    mimeType: "image/png",
+    supabasePath,
+  };
+}
+
+const ago = (ms: number) => new Date(now.getTime() - ms);
+const retention = TRASH_RETENTION_DAYS * DAY_MS;
+
+describe("getExpiredChats", () => {
+  it("purges only chats trashed at least the retention period ago", () => {
+    const data: ChatsData = {
+      chats: [
+        chat("live"),
+        chat("recent", ago(DAY_MS)),
+        chat("just-under", ago(retention - 1)),
+        chat("exactly", ago(retention)),
+        chat("just-over", ago(retention + 1)),
+      ],
+      currentChatId: "live",
+    };
+
+    expect(getExpiredChats(data, now).map((c) => c.id)).toEqual([
+      "exactly",
+      "just-over",
+    ]);
+  });
+
+  it("dates the purge the retention period after the deletion", () => {
+    expect(purgeDate(chat("trashed", ago(DAY_MS))).getTime()).toBe(
+      now.getTime() - DAY_MS + retention
+    );
+  });
+});
+
+describe("moveToTrash and restoreFromTrash", () => {
+  it("opens the next chat in the sidebar when the open one is trashed", () => {
+    const data: ChatsData = {
+      chats: [chat("a"), { ...chat("b"), archivedAt: new Date() }, chat("c")],
+      currentChatId: "a",
+    };
+    const trashed = moveToTrash(data, "a");
+    expect(trashed.chats[0].deletedAt).toBeInstanceOf(Date);
+    expect(trashed.currentChatId).toBe("c");
+
+    expect(restoreFromTrash(trashed, "a").chats[0].deletedAt).toBeNull();
+  });
+});
+
+describe("purgeChats", () => {
+  it("removes the chats and the attachments only they referred to", () => {
+    const shared = attachment("shared", "user/shared.png");
+    const data: ChatsData = {
+      chats: [
+        chat("old", ago(retention), [
+          attachment("own", "user/own.png"),
+          shared,
+        ]),
+        chat("copy", null, [shared]),
+      ],
+      currentChatId: "old",
+    };
+
+    const result = purgeChats(data, ["old"]);
+    expect(result.data.chats.map((c) => c.id)).toEqual(["copy"]);
+    expect(result.data.currentChatId).toBeNull();
+    expect(result.attachmentIds).toEqual(["own"]);
+    expect(result.storagePaths).toEqual(["user/own.png"]);
+  });
+});
@@ -0,0 +1,97 @@
+import type { Attachment, Chat, ChatsData } from "./types";
+
+// Deleted chats stay in ChatsData with `deletedAt` set, so they can be
+// restored, until they are purged by hand or after TRASH_RETENTION_DAYS.
+// Purging also removes the chats' files from Storage, see
+// app/actions/trash.ts.
+
+export const TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** When a trashed chat will be purged. */
+export function purgeDate(chat: Chat): Date {
+  return new Date(
+    new Date(chat.deletedAt!).getTime() + TRASH_RETENTION_DAYS * DAY_MS
+  );
+}
+
+/** Chats in the trash that have outlived the retention period. */
+export function getExpiredChats(data: ChatsData, now = new Date()): Chat[] {
+  return data.chats.filter(
+    (chat) => chat.deletedAt && purgeDate(chat).getTime() <= now.getTime()
+  );
+}
+
+/**
+ * Moves a chat to the trash. When it was open, the first chat still in the
+ * sidebar is opened instead.
+ */
+export function moveToTrash(data: ChatsData, chatId: string): ChatsData {
+  const chats = data.chats.map((chat) =>
+    chat.id === chatId ? { ...chat, deletedAt: new Date() } : chat
+  );
+  const currentChatId =
+    data.currentChatId === chatId
+      ? (chats.find((chat) => !chat.deletedAt && !chat.archivedAt)?.id ?? null)
+      : data.currentChatId;
+
+  return { ...data, chats, currentChatId };
+}
+
+export function restoreFromTrash(data: ChatsData, chatId: string): ChatsData {
+  return {
+    ...data,
+    chats: data.chats.map((chat) =>
+      chat.id === chatId ? { ...chat, deletedAt: null } : chat
+    ),
+  };
+}
+
+function attachmentsOf(chats: Chat[]): Attachment[] {
+  return chats.flatMap((chat) =>
+    chat.messages.flatMap((message) => message.attachments ?? [])
+  );
+}
+
+/**
+ * Removes chats for good. Also returns the attachments only they referred
+ * to, whose copies in localStorage and Storage can go: imported copies of a
+ * chat share attachments with the original, so those are kept.
+ */
+export function purgeChats(
+  data: ChatsData,
+  chatIds: string[]
+): { data: ChatsData; attachmentIds: string[]; storagePaths: string[] } {
+  const ids = new Set(chatIds);
+  const kept = data.chats.filter((chat) => !ids.has(chat.id));
+  const removed = attachmentsOf(data.chats.filter((chat) => ids.has(chat.id)));
+
+  const keptIds = new Set<string>();
+  const keptPaths = new Set<string>();
+  for (const attachment of attachmentsOf(kept)) {
+    keptIds.add(attachment.id);
+    if (attachment.supabasePath) keptPaths.add(attachment.supabasePath);
+  }
+
+  const attachmentIds = new Set<string>();
+  const storagePaths = new Set<string>();
+  for (const attachment of removed) {
+    if (!keptIds.has(attachment.id)) attachmentIds.add(attachment.id);
+    const path = attachment.supabasePath;
+    if (path && !keptPaths.has(path)) storagePaths.add(path);
+  }
+
+  return {
+    data: {
+      ...data,
+      chats: kept,
+      currentChatId:
+        data.currentChatId && ids.has(data.currentChatId)
+          ? null
+          : data.currentChatId,
+    },
+    attachmentIds: [...attachmentIds],
+    storagePaths: [...storagePaths],
+  };
+}
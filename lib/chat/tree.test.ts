@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import {
+  getActivePath,
+  getLatestLeafId,
+  getPathTo,
+  getSiblings,
+  normalizeChat,
+} from "./tree";
+import type { Chat, Message } from "./types";
+
+function message(
+  id: string,
+  parentId: string | null | undefined,
+  role: Message["role"] = "user"
+): Message {
+  return { id, role, content: id, timestamp: new Date(0), parentId };
+}
+
+function chat(messages: Message[], currentLeafId?: string | null): Chat {
+  return {
+    id: "chat",
+    title: "Chat",
+    messages,
+    currentLeafId,
+    createdAt: new Date(0),
+    updatedAt: new Date(0),
+  };
+}
+
+const ids = (messages: Message[]) => messages.map((m) => m.id);
+
+// q1 ─ a1 ─ q2 ─ a2
+//    └ a1b          (regenerated reply)
+//    q1b ─ a3       (edited first question)
+const tree = chat(
+  [
+    message("q1", null),
+    message("a1", "q1", "assistant"),
+    message("q2", "a1"),
+    message("a2", "q2", "assistant"),
+    message("a1b", "q1", "assistant"),
+    message("q1b", null),
+    message("a3", "q1b", "assistant"),
+  ],
+  "a2"
+);
+
+describe("normalizeChat", () => {
+  it("chains legacy messages in order and selects the last one", () => {
+    const legacy = normalizeChat(
+      chat([
+        message("q1", undefined),
+        message("a1", undefined, "assistant"),
+        message("q2", undefined),
+      ])
+    );
+    expect(legacy.messages.map((m) => m.parentId)).toEqual([null, "q1", "a1"]);
+    expect(legacy.currentLeafId).toBe("q2");
+  });
+
+  it("keeps a branching chat and falls back from an unknown leaf", () => {
+    expect(normalizeChat(tree)).toEqual(tree);
+    expect(
+      normalizeChat({ ...tree, currentLeafId: "gone" }).currentLeafId
+    ).toBe("a3");
+    expect(normalizeChat(chat([])).currentLeafId).toBeNull();
+  });
+});
+
+describe("getPathTo", () => {
+  it("returns the messages from the root down to the leaf", () => {
+    expect(ids(getPathTo(tree, "a2"))).toEqual(["q1", "a1", "q2", "a2"]);
+    expect(ids(getPathTo(tree, "a1b"))).toEqual(["q1", "a1b"]);
+    expect(getPathTo(tree, null)).toEqual([]);
+    expect(getPathTo(tree, "gone")).toEqual([]);
+  });
+
+  it("stops where a parent chain would loop", () => {
+    const looped = chat([message("x", "y"), message("y", "x")]);
+    expect(ids(getPathTo(looped, "x"))).toEqual(["y", "x"]);
+  });
+});
+
+describe("getActivePath", () => {
+  it("follows the selected branch", () => {
+    expect(ids(getActivePath(tree))).toEqual(["q1", "a1", "q2", "a2"]);
+    expect(ids(getActivePath({ ...tree, currentLeafId: "a3" }))).toEqual([
+      "q1b",
+      "a3",
+    ]);
+  });
+});
+
+describe("getSiblings", () => {
+  it("groups regenerated replies under the same question", () => {
+    expect(ids(getSiblings(tree, tree.messages[1]))).toEqual(["a1", "a1b"]);
+  });
+
+  it("groups edited questions under the same parent, roots included", () => {
+    expect(ids(getSiblings(tree, tree.messages[0]))).toEqual(["q1", "q1b"]);
+    const legacyRoot = message("q1", undefined);
+    expect(ids(getSiblings(tree, legacyRoot))).toEqual(["q1", "q1b"]);
+  });
+});
+
+describe("getLatestLeafId", () => {
+  it("follows the most recent child down to a leaf", () => {
+    expect(getLatestLeafId(tree, "q1")).toBe("a1b");
+    expect(getLatestLeafId(tree, "a1")).toBe("a2");
+    expect(getLatestLeafId(tree, "a2")).toBe("a2");
+  });
+
+  it("switching to a sibling shows its latest branch", () => {
+    const [, a1b] = getSiblings(tree, tree.messages[1]);
+    const switched = { ...tree, currentLeafId: getLatestLeafId(tree, a1b.id) };
+    expect(ids(getActivePath(switched))).toEqual(["q1", "a1b"]);
+  });
+
+  it("stops on a cycle", () => {
+    const looped = chat([message("x", "y"), message("y", "x")]);
+    expect(getLatestLeafId(looped, "x")).toBe("y");
+  });
+});
@@ -0,0 +1,79 @@
+import type { Chat, Message } from "./types";
+
+// Helpers for the branching message model. A chat stores every message of
+// every branch in `messages`; each message points at the one it follows via
+// `parentId`, and `currentLeafId` selects the branch that is displayed.
+
+/**
+ * Upgrades chats saved before branching existed: messages without a
+ * `parentId` are chained in array order and the last one becomes the leaf.
+ */
+export function normalizeChat(chat: Chat): Chat {
+  const isLegacy =
+    chat.messages.length > 0 &&
+    chat.messages.every((message) => message.parentId === undefined);
+
+  const messages = isLegacy
+    ? chat.messages.map((message, index) => ({
+        ...message,
+        parentId: index === 0 ? null : chat.messages[index - 1].id,
+      }))
+    : chat.messages;
+
+  const leafExists = messages.some((m) => m.id === chat.currentLeafId);
+  return {
+    ...chat,
+    messages,
+    currentLeafId: leafExists
+      ? chat.currentLeafId
+      : (messages[messages.length - 1]?.id ?? null),
+  };
+}
+
+/**
+ * Returns the messages from the root down to `leafId`. A parent chain that
+ * loops back on itself ends where it would repeat a message.
+ */
+export function getPathTo(chat: Chat, leafId: string | null | undefined) {
+  const byId = new Map(chat.messages.map((m) => [m.id, m]));
+  const path: Message[] = [];
+  const visited = new Set<string>();
+  let current = leafId ? byId.get(leafId) : undefined;
+
+  while (current && !visited.has(current.id)) {
+    visited.add(current.id);
+    path.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+
+  return path;
+}
+
+/** Returns the messages of the branch currently selected in the chat. */
+export function getActivePath(chat: Chat): Message[] {
+  return getPathTo(chat, normalizeChat(chat).currentLeafId);
+}
+
+/** Returns all messages sharing `message`'s parent, oldest first. */
+export function getSiblings(chat: Chat, message: Message): Message[] {
+  return chat.messages.filter(
+    (m) => (m.parentId ?? null) === (message.parentId ?? null)
+  );
+}
+
+/**
+ * Follows the most recent child at every level below `messageId` and
+ * returns the id of the leaf reached.
+ */
+export function getLatestLeafId(chat: Chat, messageId: string): string {
+  let leafId = messageId;
+  const visited = new Set([leafId]);
+
+  while (true) {
+    const children = chat.messages.filter((m) => m.parentId === leafId);
+    const next = children[children.length - 1];
+    if (!next || visited.has(next.id)) return leafId;
+    visited.add(next.id);
+    leafId = next.id;
+  }
+}
@@ -0,0 +1,111 @@
+// Shared chat data model. Chats are persisted through SyncProvider under the
+// "chats" key, so every field here must survive a JSON round trip.
+
+export interface Attachment {
+  id: string;
+  name: string;
+  type: string;
+  size: number;
+  data: string; // base64 or text content
+  mimeType: string;
+  /**
+   * Relative path of the file inside the Supabase "files" bucket.  Used
+   * to re-download the file when it is not present in localStorage.
+   */
+  supabasePath?: string;
+}
+
+export interface Message {
+  id: string;
+  role: "user" | "assistant";
+  content: string;
+  timestamp: Date;
+  model?: string;
+  attachments?: Attachment[];
+  /** Set on assistant replies the user stopped before they finished. */
+  stopped?: boolean;
+  /** Tools the assistant called while writing this reply. */
+  toolCalls?: ToolInvocation[];
+  /** Set on replies written from a compacted history, see lib/chat/context.ts */
+  contextCompaction?: ContextCompaction;
+  /**
+   * Message this one follows. Messages sharing a parent are branches the
+   * user can switch between; `null` marks the first turn of a chat.
+   */
+  parentId?: string | null;
+}
+
+export interface ToolInvocation {
+  /** Provider-assigned id of the call. */
+  id: string;
+  name: string;
+  arguments: unknown;
+  /** Unset while the tool is running. */
+  result?: unknown;
+  isError?: boolean;
+}
+
+export interface ContextCompaction {
+  /** Earlier messages left out to fit the model's context window */
+  omitted: number;
+  /** Whether a summary of them was sent in their place */
+  summarized: boolean;
+}
+
+/**
+ * Where a chat's title came from: the start of the first message, a model
+ * after the first exchange, or the user. Manual titles are never replaced.
+ */
+export type TitleSource = "default" | "generated" | "manual";
+
+export interface Chat {
+  id: string;
+  title: string;
+  /** Unset on chats created before titles were generated, like "default" */
+  titleSource?: TitleSource;
+  /** Every message of every branch, see lib/chat/tree.ts */
+  messages: Message[];
+  /** Last message of the branch currently shown */
+  currentLeafId?: string | null;
+  /** Instructions sent to the model ahead of every turn in this chat */
+  systemPrompt?: string;
+  /** Sampling settings; unset fields use the provider's defaults */
+  parameters?: GenerationParameters;
+  /** Listed above all other chats in the sidebar */
+  pinned?: boolean;
+  /** Folder the chat is filed in; unset or unknown ids mean none */
+  folderId?: string | null;
+  /** When the chat was archived; archived chats are hidden from the sidebar */
+  archivedAt?: Date | null;
+  /** When the chat was moved to the trash, see lib/chat/trash.ts */
+  deletedAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface GenerationParameters {
+  temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+}
+
+/** User-defined group of chats in the sidebar, see lib/chat/folders.ts */
+export interface ChatFolder {
+  id: string;
+  name: string;
+  createdAt: Date;
+}
+
+export interface ChatsData {
+  chats: Chat[];
+  currentChatId: string | null;
+  /** Unset on data saved before folders existed */
+  folders?: ChatFolder[];
+}
+
+/** Reusable system prompt, stored through SyncProvider under "personaPresets". */
+export interface PersonaPreset {
+  id: string;
+  name: string;
+  systemPrompt: string;
+}
@@ -1,8 +1,89 @@
+import type { ProviderId } from "@/lib/providers/types";
+import type { MeteringConfig } from "@/lib/metering";
+
 export const COMPANY_NAME = "Lumen";
 export const COMPANY_DESCRIPTION =
   "The fastest way to build apps with Next.js and Lumen";
+
+export interface ModelConfig {
+  id: string;
+  name: string;
+  description: string;
+  /** Key into the provider registry in lib/providers */
+  provider: ProviderId;
+  /** Lumen feature the user's plan must include to use this model */
+  feature: string;
+  /** How usage of this model is reported to Lumen (defaults to METERING_MODE) */
+  metering?: MeteringConfig;
+  /** Bounds for the generation parameters users may set */
+  limits: ModelLimits;
+}
+
+export interface ModelLimits {
+  /** Tokens the model accepts per request, prompt and reply together */
+  contextWindow: number;
+  /** Largest allowed value for the max tokens parameter */
+  maxOutputTokens: number;
+  /** Largest allowed temperature (0 is always the minimum) */
+  maxTemperature: number;
+}
+
+// Lumen event names. Each one must exist as a feature in the Lumen dashboard
+// for the metering modes that use it.
+export const METER_EVENTS = {
+  messages: "chat-messages",
+  inputTokens: "chat-input-tokens",
+  outputTokens: "chat-output-tokens",
+  credits: "chat-credits",
+};
+
+// Used when METERING_MODE is unset; "credits" prices replies with
+// CREDIT_PRICE_TABLE so that larger models cost more
+export const DEFAULT_METERING: MeteringConfig = { mode: "message" };
+
+// Lumen features that gate access to models. Like the meter events, they must
+// exist in the Lumen dashboard and be included in the plans that grant them.
+export const MODEL_FEATURES = {
+  standard: "chat-messages",
+  premium: "premium-models",
+};
+
+export type PlanTier = keyof typeof MODEL_FEATURES;
+
+export interface RateLimitConfig {
+  /** Requests a user can send in a burst */
+  burst: number;
+  /** Sustained requests per minute once the burst is used up */
+  perMinute: number;
+  /** Replies a user can have generating at the same time */
+  maxConcurrent: number;
+}
+
+// Limits on /api/chat per plan tier; a user is premium when their plan
+// includes MODEL_FEATURES.premium
+export const RATE_LIMITS: Record<PlanTier, RateLimitConfig> = {
+  standard: { burst: 10, perMinute: 10, maxConcurrent: 2 },
+  premium: { burst: 30, perMinute: 30, maxConcurrent: 4 },
+};
+
+// Cheap model used to name chats after their first exchange
+export const TITLE_MODEL = "gpt-4o-mini";
+
+// Credits charged per 1K tokens for models metered in "credits" mode
+export const CREDIT_PRICE_TABLE: Record<
+  string,
+  { inputPer1k: number; outputPer1k: number }
+> = {
+  "gpt-3.5-turbo": { inputPer1k: 0.5, outputPer1k: 1.5 },
+  "gpt-4o": { inputPer1k: 2.5, outputPer1k: 10 },
+  "gpt-4o-mini": { inputPer1k: 0.15, outputPer1k: 0.6 },
+  "claude-sonnet-4-20250514": { inputPer1k: 3, outputPer1k: 15 },
+  "gemini-2.5-flash": { inputPer1k: 0.3, outputPer1k: 2.5 },
+  "gemini-2.5-pro": { inputPer1k: 1.25, outputPer1k: 10 },
+};
+
 // Available models configuration
-export const AVAILABLE_MODELS = [
+export const AVAILABLE_MODELS: ModelConfig[] = [
   // OpenAI models
   // {
   //   id: "gpt-4",
@@ -21,18 +102,36 @@ export const AVAILABLE_MODELS = [
     name: "GPT-3.5 Turbo",
     description: "Fast and efficient",
     provider: "openai",
+    feature: MODEL_FEATURES.standard,
+    limits: {
+      contextWindow: 16385,
+      maxOutputTokens: 4096,
+      maxTemperature: 2,
+    },
   },
   {
     id: "gpt-4o",
     name: "GPT-4o",
     description: "Optimized for conversations",
     provider: "openai",
+    feature: MODEL_FEATURES.premium,
+    limits: {
+      contextWindow: 128000,
+      maxOutputTokens: 16384,
+      maxTemperature: 2,
+    },
   },
   {
     id: "gpt-4o-mini",
     name: "GPT-4o Mini",
     description: "Lightweight version",
     provider: "openai",
+    feature: MODEL_FEATURES.standard,
+    limits: {
+      contextWindow: 128000,
+      maxOutputTokens: 16384,
+      maxTemperature: 2,
+    },
   },
 
   // Anthropic models
@@ -47,6 +146,12 @@ export const AVAILABLE_MODELS = [
     name: "Claude Sonnet 4",
     description: "Balanced cost and quality",
     provider: "anthropic",
+    feature: MODEL_FEATURES.premium,
+    limits: {
+      contextWindow: 200000,
+      maxOutputTokens: 64000,
+      maxTemperature: 1,
+    },
   },
   // {
   //   id: "claude-3-haiku-20240307",
@@ -54,4 +159,30 @@ export const AVAILABLE_MODELS = [
   //   description: "Fast and lightweight",
   //   provider: "anthropic",
   // },
+
+  // Gemini models
+  {
+    id: "gemini-2.5-flash",
+    name: "Gemini 2.5 Flash",
+    description: "Fast multimodal model",
+    provider: "gemini",
+    feature: MODEL_FEATURES.standard,
+    limits: {
+      contextWindow: 1048576,
+      maxOutputTokens: 65536,
+      maxTemperature: 2,
+    },
+  },
+  {
+    id: "gemini-2.5-pro",
+    name: "Gemini 2.5 Pro",
+    description: "Google's most capable model",
+    provider: "gemini",
+    feature: MODEL_FEATURES.premium,
+    limits: {
+      contextWindow: 1048576,
+      maxOutputTokens: 65536,
+      maxTemperature: 2,
+    },
+  },
 ];
@@ -0,0 +1,245 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type {
+  Attachment,
+  ContextCompaction,
+  Message,
+  TitleSource,
+  ToolInvocation,
+} from "@/lib/chat/types";
+import { parseHighlightedSnippet, type SearchResult } from "@/lib/chat/search";
+
+// Data access for the conversations/messages tables. Every function takes the
+// caller's Supabase client so that row level security scopes the queries to
+// the signed-in user.
+
+export interface ConversationRow {
+  id: string;
+  user_id: string;
+  title: string;
+  title_source: TitleSource;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface MessageRow {
+  id: string;
+  conversation_id: string;
+  user_id: string;
+  role: "user" | "assistant";
+  content: string;
+  model: string | null;
+  attachments: Attachment[];
+  stopped: boolean;
+  tool_calls: ToolInvocation[];
+  context_compaction: ContextCompaction | null;
+  parent_id: string | null;
+  created_at: string;
+}
+
+export interface Conversation {
+  id: string;
+  title: string;
+  titleSource: TitleSource;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+function toConversation(row: ConversationRow): Conversation {
+  return {
+    id: row.id,
+    title: row.title,
+    titleSource: row.title_source,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+}
+
+function toMessage(row: MessageRow): Message {
+  return {
+    id: row.id,
+    role: row.role,
+    content: row.content,
+    timestamp: new Date(row.created_at),
+    model: row.model ?? undefined,
+    attachments: row.attachments.length > 0 ? row.attachments : undefined,
+    stopped: row.stopped || undefined,
+    toolCalls: row.tool_calls.length > 0 ? row.tool_calls : undefined,
+    contextCompaction: row.context_compaction ?? undefined,
+    parentId: row.parent_id,
+  };
+}
+
+/**
+ * Strips file contents from attachments. Only metadata and the Storage path
+ * are persisted; the data is re-downloaded from the "files" bucket on demand.
+ */
+export function toAttachmentMetadata(attachments: Attachment[] = []) {
+  return attachments.map((attachment) => ({ ...attachment, data: "" }));
+}
+
+export async function listConversations(
+  supabase: SupabaseClient
+): Promise<Conversation[]> {
+  const { data, error } = await supabase
+    .from("conversations")
+    .select("*")
+    .order("updated_at", { ascending: false });
+
+  if (error) throw error;
+  return (data as ConversationRow[]).map(toConversation);
+}
+
+export async function getConversation(
+  supabase: SupabaseClient,
+  id: string
+): Promise<Conversation | null> {
+  const { data, error } = await supabase
+    .from("conversations")
+    .select("*")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? toConversation(data as ConversationRow) : null;
+}
+
+/**
+ * Creates the conversation if it does not exist yet. An existing row keeps
+ * its title; only `updated_at` is bumped.
+ */
+export async function ensureConversation(
+  supabase: SupabaseClient,
+  conversation: { id: string; title?: string }
+): Promise<void> {
+  const { error: insertError } = await supabase.from("conversations").upsert(
+    {
+      id: conversation.id,
+      title: conversation.title || "New Chat",
+    },
+    { onConflict: "id", ignoreDuplicates: true }
+  );
+  if (insertError) throw insertError;
+
+  await touchConversation(supabase, conversation.id);
+}
+
+/**
+ * Sets the title of a conversation. A generated title is only applied while
+ * the user has not renamed the conversation; returns whether it was set.
+ */
+export async function setConversationTitle(
+  supabase: SupabaseClient,
+  id: string,
+  title: string,
+  source: Exclude<TitleSource, "default">
+): Promise<boolean> {
+  let query = supabase
+    .from("conversations")
+    .update({ title, title_source: source })
+    .eq("id", id);
+  if (source === "generated") query = query.neq("title_source", "manual");
+
+  const { data, error } = await query.select("id");
+  if (error) throw error;
+  return data.length > 0;
+}
+
+export async function touchConversation(
+  supabase: SupabaseClient,
+  id: string
+): Promise<void> {
+  const { error } = await supabase
+    .from("conversations")
+    .update({ updated_at: new Date().toISOString() })
+    .eq("id", id);
+
+  if (error) throw error;
+}
+
+/** Deletes conversations along with their messages. */
+export async function deleteConversations(
+  supabase: SupabaseClient,
+  ids: string[]
+): Promise<void> {
+  if (ids.length === 0) return;
+
+  const { error } = await supabase.from("conversations").delete().in("id", ids);
+  if (error) throw error;
+}
+
+export async function listMessages(
+  supabase: SupabaseClient,
+  conversationId: string
+): Promise<Message[]> {
+  const { data, error } = await supabase
+    .from("messages")
+    .select("*")
+    .eq("conversation_id", conversationId)
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+  return (data as MessageRow[]).map(toMessage);
+}
+
+/**
+ * Inserts messages into a conversation. Messages whose id already exists are
+ * skipped, so retries and client/server double writes are harmless.
+ */
+export async function insertMessages(
+  supabase: SupabaseClient,
+  conversationId: string,
+  messages: Message[]
+): Promise<void> {
+  if (messages.length === 0) return;
+
+  const { error } = await supabase.from("messages").upsert(
+    messages.map((message) => ({
+      id: message.id,
+      conversation_id: conversationId,
+      role: message.role,
+      content: message.content,
+      model: message.model ?? null,
+      attachments: toAttachmentMetadata(message.attachments),
+      stopped: message.stopped ?? false,
+      tool_calls: message.toolCalls ?? [],
+      context_compaction: message.contextCompaction ?? null,
+      parent_id: message.parentId ?? null,
+      created_at: new Date(message.timestamp).toISOString(),
+    })),
+    { onConflict: "id", ignoreDuplicates: true }
+  );
+
+  if (error) throw error;
+  await touchConversation(supabase, conversationId);
+}
+
+/**
+ * Full-text search over the caller's messages through the search_messages
+ * function, best matches first. Every word of `query` must match, as a
+ * prefix.
+ */
+export async function searchMessages(
+  supabase: SupabaseClient,
+  query: string,
+  limit = 50
+): Promise<SearchResult[]> {
+  const { data, error } = await supabase.rpc("search_messages", {
+    p_query: query,
+    p_limit: limit,
+  });
+
+  if (error) throw error;
+  return (
+    data as Array<{
+      message_id: string;
+      conversation_id: string;
+      snippet: string;
+      created_at: string;
+    }>
+  ).map((row) => ({
+    chatId: row.conversation_id,
+    messageId: row.message_id,
+    timestamp: new Date(row.created_at),
+    ...parseHighlightedSnippet(row.snippet),
+  }));
+}
@@ -0,0 +1,184 @@
+import { isFeatureEntitled } from "@getlumen/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { meterUsage, type MeterEvent } from "@/lib/metering";
+import type { ModelConfig } from "@/lib/constants";
+
+const TABLE = "credit_reservations";
+
+// A reservation left in "reserved" for longer than this (e.g. the server
+// crashed mid-generation) no longer blocks retries of the same key.
+const RESERVATION_TTL_MS = 10 * 60 * 1000;
+
+export interface CreditReservation {
+  userId: string;
+  idempotencyKey: string;
+  model: ModelConfig;
+}
+
+export type ReserveResult =
+  | { ok: true; reservation: CreditReservation }
+  | {
+      ok: false;
+      reason: "not_entitled" | "in_progress" | "already_committed";
+    };
+
+/**
+ * Reserves credits for one generation before the upstream call is made.
+ *
+ * Lumen has no hold API, so a reservation is an entitlement check plus a
+ * row keyed by the client's idempotency key. The row guarantees that the
+ * key is metered at most once however often the request is retried. A key
+ * that was already committed is rejected: the key is chosen by the client,
+ * so regenerating for it would be a generation nobody pays for.
+ *
+ * With `skipEntitlement` only the idempotency row is taken, for requests
+ * that will not be metered, e.g. those made with the user's own key.
+ */
+export async function reserveCredits({
+  userId,
+  idempotencyKey,
+  model,
+  feature,
+  skipEntitlement = false,
+}: {
+  userId: string;
+  idempotencyKey: string;
+  model: ModelConfig;
+  feature: string;
+  skipEntitlement?: boolean;
+}): Promise<ReserveResult> {
+  const supabase = createAdminClient();
+  const reservation: CreditReservation = {
+    userId,
+    idempotencyKey,
+    model,
+  };
+
+  const { data: existing, error: fetchError } = await supabase
+    .from(TABLE)
+    .select("status, updated_at")
+    .eq("user_id", userId)
+    .eq("idempotency_key", idempotencyKey)
+    .maybeSingle();
+
+  if (fetchError) throw fetchError;
+
+  if (existing?.status === "committed") {
+    return { ok: false, reason: "already_committed" };
+  }
+
+  const staleBefore = new Date(Date.now() - RESERVATION_TTL_MS).toISOString();
+  if (existing?.status === "reserved" && existing.updated_at > staleBefore) {
+    return { ok: false, reason: "in_progress" };
+  }
+
+  if (
+    !skipEntitlement &&
+    !(await isFeatureEntitled({
+      feature,
+      userId,
+      apiUrl: process.env.LUMEN_API_URL,
+    }))
+  ) {
+    return { ok: false, reason: "not_entitled" };
+  }
+
+  if (existing) {
+    // Re-reserve a released or stale key. The filter makes concurrent
+    // retries race on the row so that only one of them wins.
+    const { data: updated, error: updateError } = await supabase
+      .from(TABLE)
+      .update({
+        status: "reserved",
+        model: model.id,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("user_id", userId)
+      .eq("idempotency_key", idempotencyKey)
+      .or(`status.eq.released,updated_at.lt.${staleBefore}`)
+      .select("id");
+
+    if (updateError) throw updateError;
+    if (!updated || updated.length === 0) {
+      return { ok: false, reason: "in_progress" };
+    }
+    return { ok: true, reservation };
+  }
+
+  const { error: insertError } = await supabase.from(TABLE).insert({
+    user_id: userId,
+    idempotency_key: idempotencyKey,
+    model: model.id,
+  });
+
+  if (insertError) {
+    // 23505 is a unique violation: a concurrent request holds this key
+    if (insertError.code === "23505") {
+      return { ok: false, reason: "in_progress" };
+    }
+    throw insertError;
+  }
+
+  return { ok: true, reservation };
+}
+
+/**
+ * Commits a reservation with the actual usage and meters it to Lumen.
+ * Returns the events that were sent.
+ * With `skipMetering` the key is settled without sending events, e.g. for
+ * requests made with the user's own provider key.
+ */
+export async function commitReservation(
+  reservation: CreditReservation,
+  usage: { inputTokens: number; outputTokens: number },
+  { skipMetering = false }: { skipMetering?: boolean } = {}
+): Promise<MeterEvent[]> {
+  const supabase = createAdminClient();
+
+  // Claim the row first so that a key can never be metered twice
+  const { data: claimed, error: claimError } = await supabase
+    .from(TABLE)
+    .update({ status: "committed", updated_at: new Date().toISOString() })
+    .eq("user_id", reservation.userId)
+    .eq("idempotency_key", reservation.idempotencyKey)
+    .eq("status", "reserved")
+    .select("id");
+
+  if (claimError) throw claimError;
+  if (!claimed || claimed.length === 0) return [];
+
+  const events = skipMetering
+    ? []
+    : await meterUsage(reservation.userId, reservation.model, usage);
+
+  const { error: eventsError } = await supabase
+    .from(TABLE)
+    .update({ meter_events: events })
+    .eq("id", claimed[0].id);
+
+  if (eventsError) {
+    console.error("Failed to record meter events on reservation:", eventsError);
+  }
+
+  return events;
+}
+
+/**
+ * Releases a reservation without billing, e.g. when the provider errored or
+ * the client aborted. The key can then be retried.
+ */
+export async function releaseReservation(
+  reservation: CreditReservation
+): Promise<void> {
+  const supabase = createAdminClient();
+  const { error } = await supabase
+    .from(TABLE)
+    .update({ status: "released", updated_at: new Date().toISOString() })
+    .eq("user_id", reservation.userId)
+    .eq("idempotency_key", reservation.idempotencyKey)
+    .eq("status", "reserved");
+
+  if (error) {
+    console.error("Failed to release credit reservation:", error);
+  }
+}
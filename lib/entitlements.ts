@@ -0,0 +1,92 @@
+// Client-side reader for /api/lumen/entitlements, the endpoint UsageBadge
+// polls. The usage page reads the same data to show what is left of the
+// current billing period.
+
+export interface Entitlement {
+  feature: {
+    slug: string;
+    value?: number;
+  };
+  creditInfo?: {
+    creditAllowance: number;
+    creditsRemaining: number;
+  };
+  usages?: Array<{
+    usage: number;
+    periodStart?: string;
+    periodEnd?: string;
+  }>;
+}
+
+export interface EntitlementUsage {
+  used: number;
+  limit: number;
+  type: "usage" | "credit";
+  periodStart: Date;
+  periodEnd: Date;
+}
+
+export async function fetchEntitlements(): Promise<Entitlement[]> {
+  const response = await fetch("/api/lumen/entitlements/{customerId}");
+  if (!response.ok) {
+    throw new Error(`Failed to load entitlements (${response.status})`);
+  }
+  const data = (await response.json()) as { entitlements?: Entitlement[] };
+  return data.entitlements ?? [];
+}
+
+/**
+ * Used and allowed amounts of one feature, read the way UsageBadge reads
+ * them: the credit allowance if the feature is credit based, otherwise the
+ * metered usage against the feature's limit. Null if the plan has neither.
+ */
+export function getEntitlementUsage(
+  entitlements: Entitlement[],
+  featureSlug: string
+): EntitlementUsage | null {
+  const entitlement = entitlements.find((e) => e.feature.slug === featureSlug);
+  if (!entitlement) return null;
+
+  const period = entitlement.usages?.[0];
+  const { periodStart, periodEnd } = getBillingPeriod(
+    period?.periodStart,
+    period?.periodEnd
+  );
+
+  if (entitlement.creditInfo) {
+    const { creditAllowance, creditsRemaining } = entitlement.creditInfo;
+    return {
+      used: creditAllowance - creditsRemaining,
+      limit: creditAllowance,
+      type: "credit",
+      periodStart,
+      periodEnd,
+    };
+  }
+
+  if (period) {
+    return {
+      used: period.usage,
+      limit: entitlement.feature.value ?? 0,
+      type: "usage",
+      periodStart,
+      periodEnd,
+    };
+  }
+
+  return null;
+}
+
+// Entitlements that do not report their period are assumed to reset
+// monthly, on the first of the month
+function getBillingPeriod(start?: string, end?: string) {
+  const now = new Date();
+  return {
+    periodStart: start
+      ? new Date(start)
+      : new Date(now.getFullYear(), now.getMonth(), 1),
+    periodEnd: end
+      ? new Date(end)
+      : new Date(now.getFullYear(), now.getMonth() + 1, 1),
+  };
+}
@@ -0,0 +1,127 @@
+import { createMemoryGenerationStore } from "./memory-store";
+import { createSupabaseGenerationStore } from "./supabase-store";
+import type {
+  BufferedEvent,
+  GenerationSnapshot,
+  GenerationStatus,
+  GenerationStore,
+} from "./types";
+
+export type * from "./types";
+
+// Events are written to the store in batches rather than one per token
+const FLUSH_INTERVAL_MS = 250;
+
+// Kept on globalThis because each route handler may get its own copy of
+// this module, and /api/chat and /api/chat/[id] must share one store
+const globalForGenerations = globalThis as unknown as {
+  generationStore?: GenerationStore;
+  activeGenerations?: Map<string, AbortController>;
+};
+
+/**
+ * Returns the store selected by GENERATION_STORE: "supabase" for the
+ * database tables, anything else for process memory.
+ */
+export function getGenerationStore(): GenerationStore {
+  globalForGenerations.generationStore ??=
+    process.env.GENERATION_STORE === "supabase"
+      ? createSupabaseGenerationStore()
+      : createMemoryGenerationStore();
+  return globalForGenerations.generationStore;
+}
+
+// Generations running in this process, so a stop can abort them directly
+const activeGenerations = (globalForGenerations.activeGenerations ??= new Map<
+  string,
+  AbortController
+>());
+
+export interface Generation {
+  id: string;
+  /** Aborted when the user stops the generation. */
+  signal: AbortSignal;
+  /** Buffers an event and returns its SSE id. */
+  record(data: string): number;
+  /** Writes the remaining events and marks the generation as ended. */
+  finish(status: Exclude<GenerationStatus, "streaming">): Promise<void>;
+}
+
+/**
+ * Starts buffering a generation under `id`, or returns null when another
+ * user's generation has that id. The generation keeps running when the
+ * client disconnects; only `stopGeneration` aborts it.
+ */
+export async function startGeneration(
+  id: string,
+  userId: string
+): Promise<Generation | null> {
+  const generationStore = getGenerationStore();
+  if (!(await generationStore.create(id, userId))) return null;
+
+  const abortController = new AbortController();
+  activeGenerations.set(id, abortController);
+
+  let nextEventId = 1;
+  let pending: BufferedEvent[] = [];
+  let flushing = Promise.resolve();
+
+  // Chained so that batches are appended in order. The stop flag is polled
+  // here too, for stops received by another server instance.
+  const flush = () => {
+    flushing = flushing
+      .then(async () => {
+        const events = pending;
+        pending = [];
+        await generationStore.append(id, events);
+        if (await generationStore.isStopRequested(id)) {
+          abortController.abort();
+        }
+      })
+      .catch((error) => {
+        console.error("Failed to buffer generation events:", error);
+      });
+    return flushing;
+  };
+
+  const timer = setInterval(flush, FLUSH_INTERVAL_MS);
+
+  return {
+    id,
+    signal: abortController.signal,
+    record(data) {
+      const eventId = nextEventId++;
+      pending.push({ id: eventId, data });
+      return eventId;
+    },
+    async finish(status) {
+      clearInterval(timer);
+      await flush();
+      activeGenerations.delete(id);
+      try {
+        await generationStore.finish(id, status);
+      } catch (error) {
+        console.error("Failed to finish generation:", error);
+      }
+    },
+  };
+}
+
+/** Reads the events of a generation after `afterEventId`. */
+export function readGeneration(
+  id: string,
+  userId: string,
+  afterEventId: number
+): Promise<GenerationSnapshot | null> {
+  return getGenerationStore().read(id, userId, afterEventId);
+}
+
+/** Stops a streaming generation; false when the user has none with `id`. */
+export async function stopGeneration(
+  id: string,
+  userId: string
+): Promise<boolean> {
+  const stopped = await getGenerationStore().requestStop(id, userId);
+  if (stopped) activeGenerations.get(id)?.abort();
+  return stopped;
+}
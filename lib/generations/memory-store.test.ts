@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { createMemoryGenerationStore } from "./memory-store";
+
+describe("createMemoryGenerationStore", () => {
+  describe("create", () => {
+    it("restarts a retried generation of the same user", async () => {
+      const store = createMemoryGenerationStore();
+      expect(await store.create("gen", "alice")).toBe(true);
+      await store.append("gen", [{ id: 1, data: "first" }]);
+      await store.finish("gen", "error");
+
+      expect(await store.create("gen", "alice")).toBe(true);
+      expect(await store.read("gen", "alice", 0)).toEqual({
+        status: "streaming",
+        events: [],
+      });
+    });
+
+    it("refuses an id that belongs to another user", async () => {
+      const store = createMemoryGenerationStore();
+      await store.create("gen", "alice");
+      await store.append("gen", [{ id: 1, data: "secret" }]);
+
+      expect(await store.create("gen", "mallory")).toBe(false);
+      expect(await store.read("gen", "mallory", 0)).toBeNull();
+      expect(await store.read("gen", "alice", 0)).toEqual({
+        status: "streaming",
+        events: [{ id: 1, data: "secret" }],
+      });
+    });
+  });
+
+  describe("read", () => {
+    it("returns only the events after the given id", async () => {
+      const store = createMemoryGenerationStore();
+      await store.create("gen", "alice");
+      await store.append("gen", [
+        { id: 1, data: "a" },
+        { id: 2, data: "b" },
+      ]);
+      await store.finish("gen", "done");
+
+      expect(await store.read("gen", "alice", 1)).toEqual({
+        status: "done",
+        events: [{ id: 2, data: "b" }],
+      });
+    });
+  });
+});
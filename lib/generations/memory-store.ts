@@ -0,0 +1,77 @@
+import type { BufferedEvent, GenerationStatus, GenerationStore } from "./types";
+
+// Finished generations are kept this long for late reconnects
+const RETENTION_MS = 10 * 60 * 1000;
+
+interface Entry {
+  userId: string;
+  status: GenerationStatus;
+  events: BufferedEvent[];
+  stopRequested: boolean;
+  finishedAt?: number;
+}
+
+/**
+ * Keeps generations in process memory. Only suitable for a single server
+ * instance; use the Supabase store when requests may hit different ones.
+ */
+export function createMemoryGenerationStore(): GenerationStore {
+  const entries = new Map<string, Entry>();
+
+  const prune = () => {
+    const expiredBefore = Date.now() - RETENTION_MS;
+    for (const [id, entry] of entries) {
+      if (entry.finishedAt !== undefined && entry.finishedAt < expiredBefore) {
+        entries.delete(id);
+      }
+    }
+  };
+
+  return {
+    async create(id, userId) {
+      prune();
+      const existing = entries.get(id);
+      if (existing && existing.userId !== userId) return false;
+      entries.set(id, {
+        userId,
+        status: "streaming",
+        events: [],
+        stopRequested: false,
+      });
+      return true;
+    },
+
+    async append(id, events) {
+      entries.get(id)?.events.push(...events);
+    },
+
+    async finish(id, status) {
+      const entry = entries.get(id);
+      if (!entry) return;
+      entry.status = status;
+      entry.finishedAt = Date.now();
+    },
+
+    async read(id, userId, afterEventId) {
+      const entry = entries.get(id);
+      if (!entry || entry.userId !== userId) return null;
+      return {
+        status: entry.status,
+        events: entry.events.filter((event) => event.id > afterEventId),
+      };
+    },
+
+    async requestStop(id, userId) {
+      const entry = entries.get(id);
+      if (!entry || entry.userId !== userId || entry.status !== "streaming") {
+        return false;
+      }
+      entry.stopRequested = true;
+      return true;
+    },
+
+    async isStopRequested(id) {
+      return entries.get(id)?.stopRequested ?? false;
+    },
+  };
+}
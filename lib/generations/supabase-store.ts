@@ -0,0 +1,110 @@
+import { createAdminClient } from "@/lib/supabase/admin";
+import type { GenerationStatus, GenerationStore } from "./types";
+
+/**
+ * Keeps generations in the `generations` and `generation_events` tables so
+ * that any server instance can resume or stop them. Writes go through the
+ * service role; users can only read their own rows.
+ */
+export function createSupabaseGenerationStore(): GenerationStore {
+  const supabase = createAdminClient();
+
+  return {
+    async create(id, userId) {
+      // Insert-only, so that the first user to take an id keeps it
+      const { error } = await supabase
+        .from("generations")
+        .upsert({ id, user_id: userId }, { ignoreDuplicates: true });
+      if (error) throw error;
+
+      const { data: restarted, error: updateError } = await supabase
+        .from("generations")
+        .update({
+          status: "streaming",
+          stop_requested: false,
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", id)
+        .eq("user_id", userId)
+        .select("id");
+      if (updateError) throw updateError;
+      if (!restarted?.length) return false;
+
+      // A retried idempotency key starts over with fresh event ids
+      const { error: deleteError } = await supabase
+        .from("generation_events")
+        .delete()
+        .eq("generation_id", id);
+      if (deleteError) throw deleteError;
+      return true;
+    },
+
+    async append(id, events) {
+      if (events.length === 0) return;
+      const { error } = await supabase.from("generation_events").insert(
+        events.map((event) => ({
+          generation_id: id,
+          id: event.id,
+          data: event.data,
+        }))
+      );
+      if (error) throw error;
+    },
+
+    async finish(id, status) {
+      const { error } = await supabase
+        .from("generations")
+        .update({ status, updated_at: new Date().toISOString() })
+        .eq("id", id);
+      if (error) throw error;
+    },
+
+    async read(id, userId, afterEventId) {
+      // Status first: events appended after this read are picked up by the
+      // next poll, so a finished status never hides trailing events
+      const { data: generation, error } = await supabase
+        .from("generations")
+        .select("status")
+        .eq("id", id)
+        .eq("user_id", userId)
+        .maybeSingle();
+      if (error) throw error;
+      if (!generation) return null;
+
+      const { data: events, error: eventsError } = await supabase
+        .from("generation_events")
+        .select("id, data")
+        .eq("generation_id", id)
+        .gt("id", afterEventId)
+        .order("id");
+      if (eventsError) throw eventsError;
+
+      return {
+        status: generation.status as GenerationStatus,
+        events: events ?? [],
+      };
+    },
+
+    async requestStop(id, userId) {
+      const { data, error } = await supabase
+        .from("generations")
+        .update({ stop_requested: true })
+        .eq("id", id)
+        .eq("user_id", userId)
+        .eq("status", "streaming")
+        .select("id");
+      if (error) throw error;
+      return (data?.length ?? 0) > 0;
+    },
+
+    async isStopRequested(id) {
+      const { data, error } = await supabase
+        .from("generations")
+        .select("stop_requested")
+        .eq("id", id)
+        .maybeSingle();
+      if (error) throw error;
+      return data?.stop_requested ?? false;
+    },
+  };
+}
@@ -0,0 +1,42 @@
+export type GenerationStatus = "streaming" | "done" | "stopped" | "error";
+
+/** One SSE event of a generation, numbered from 1 in the order it was sent. */
+export interface BufferedEvent {
+  id: number;
+  data: string;
+}
+
+export interface GenerationSnapshot {
+  status: GenerationStatus;
+  /** Events after the id that was asked for, oldest first. */
+  events: BufferedEvent[];
+}
+
+/**
+ * Buffers the events of in-flight generations so that a client that lost
+ * its connection can pick the stream up again with `Last-Event-ID`.
+ */
+export interface GenerationStore {
+  /**
+   * Starts (or restarts, for a retried key) an empty generation. Returns
+   * false, leaving it untouched, when `id` belongs to another user.
+   */
+  create(id: string, userId: string): Promise<boolean>;
+  append(id: string, events: BufferedEvent[]): Promise<void>;
+  finish(
+    id: string,
+    status: Exclude<GenerationStatus, "streaming">
+  ): Promise<void>;
+  /**
+   * Returns the events after `afterEventId`, or null when the generation
+   * does not exist or belongs to another user.
+   */
+  read(
+    id: string,
+    userId: string,
+    afterEventId: number
+  ): Promise<GenerationSnapshot | null>;
+  /** Flags a streaming generation to stop; false when there is none. */
+  requestStop(id: string, userId: string): Promise<boolean>;
+  isStopRequested(id: string): Promise<boolean>;
+}
@@ -0,0 +1,140 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { sendEvent } from "@getlumen/server";
+import { AVAILABLE_MODELS, type ModelConfig } from "@/lib/constants";
+import {
+  computeMeterEvents,
+  estimateCredits,
+  getDefaultQuota,
+  getMeteringConfig,
+  getQuotaFeature,
+  meterUsage,
+} from "./metering";
+
+vi.mock("@getlumen/server", () => ({ sendEvent: vi.fn() }));
+
+// gpt-4o costs 2.5 credits per 1k input tokens and 10 per 1k output tokens
+const gpt4o = AVAILABLE_MODELS.find((model) => model.id === "gpt-4o")!;
+const unpriced: ModelConfig = { ...gpt4o, id: "unpriced-model" };
+const usage = { inputTokens: 1000, outputTokens: 250 };
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.mocked(sendEvent).mockReset();
+});
+
+describe.each([
+  {
+    mode: undefined,
+    events: [{ name: "chat-messages", value: 1 }],
+    quota: { feature: "chat-messages", unit: "messages" },
+  },
+  {
+    mode: "message",
+    events: [{ name: "chat-messages", value: 1 }],
+    quota: { feature: "chat-messages", unit: "messages" },
+  },
+  {
+    mode: "tokens",
+    events: [
+      { name: "chat-input-tokens", value: 1000 },
+      { name: "chat-output-tokens", value: 250 },
+    ],
+    quota: { feature: "chat-output-tokens", unit: "output tokens" },
+  },
+  {
+    mode: "credits",
+    // 1000 / 1000 * 2.5 + 250 / 1000 * 10 = 5
+    events: [{ name: "chat-credits", value: 5 }],
+    quota: { feature: "chat-credits", unit: "credits" },
+  },
+  {
+    mode: "unknown",
+    events: [{ name: "chat-messages", value: 1 }],
+    quota: { feature: "chat-messages", unit: "messages" },
+  },
+])("with METERING_MODE=$mode", ({ mode, events, quota }) => {
+  const stubMode = () => vi.stubEnv("METERING_MODE", mode);
+
+  it("computes the meter events", () => {
+    stubMode();
+    expect(computeMeterEvents(gpt4o, usage)).toEqual(events);
+  });
+
+  it("checks the quota that the events draw down", () => {
+    stubMode();
+    expect(getQuotaFeature(gpt4o)).toBe(quota.feature);
+    expect(getDefaultQuota()).toEqual(quota);
+  });
+});
+
+describe("computeMeterEvents", () => {
+  it("prefers the model's own metering over METERING_MODE", () => {
+    vi.stubEnv("METERING_MODE", "credits");
+    const model: ModelConfig = { ...gpt4o, metering: { mode: "message" } };
+    expect(getMeteringConfig(model)).toEqual({ mode: "message" });
+    expect(computeMeterEvents(model, usage)).toEqual([
+      { name: "chat-messages", value: 1 },
+    ]);
+    expect(getQuotaFeature(model)).toBe("chat-messages");
+  });
+
+  it("leaves out empty token events", () => {
+    vi.stubEnv("METERING_MODE", "tokens");
+    expect(
+      computeMeterEvents(gpt4o, { inputTokens: 12, outputTokens: 0 })
+    ).toEqual([{ name: "chat-input-tokens", value: 12 }]);
+  });
+
+  it("rounds credits up to at least one per reply", () => {
+    vi.stubEnv("METERING_MODE", "credits");
+    expect(
+      computeMeterEvents(gpt4o, { inputTokens: 1000, outputTokens: 1 })
+    ).toEqual([{ name: "chat-credits", value: 3 }]);
+    expect(
+      computeMeterEvents(gpt4o, { inputTokens: 0, outputTokens: 0 })
+    ).toEqual([{ name: "chat-credits", value: 1 }]);
+  });
+
+  it("meters an unpriced model by message in credits mode", () => {
+    vi.stubEnv("METERING_MODE", "credits");
+    vi.spyOn(console, "error").mockImplementationOnce(() => {});
+    expect(computeMeterEvents(unpriced, usage)).toEqual([
+      { name: "chat-messages", value: 1 },
+    ]);
+  });
+});
+
+describe("estimateCredits", () => {
+  it("prices input and output tokens separately", () => {
+    expect(estimateCredits("gpt-4o", usage)).toBe(5);
+    expect(estimateCredits("unpriced-model", usage)).toBeNull();
+  });
+
+  it("prices every available model", () => {
+    for (const model of AVAILABLE_MODELS) {
+      expect(estimateCredits(model.id, usage)).not.toBeNull();
+    }
+  });
+});
+
+describe("meterUsage", () => {
+  it("sends every event and does not throw when Lumen fails", async () => {
+    vi.stubEnv("METERING_MODE", "tokens");
+    vi.mocked(sendEvent)
+      .mockResolvedValueOnce(undefined as never)
+      .mockRejectedValueOnce(new Error("Lumen is down"));
+    vi.spyOn(console, "error").mockImplementationOnce(() => {});
+
+    const events = await meterUsage("user", gpt4o, usage);
+
+    expect(events).toHaveLength(2);
+    expect(sendEvent).toHaveBeenCalledTimes(2);
+    expect(sendEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        name: "chat-output-tokens",
+        value: 250,
+        userId: "user",
+      })
+    );
+  });
+});
@@ -0,0 +1,143 @@
+import { sendEvent } from "@getlumen/server";
+import {
+  CREDIT_PRICE_TABLE,
+  DEFAULT_METERING,
+  METER_EVENTS,
+  type ModelConfig,
+} from "@/lib/constants";
+
+/**
+ * How a completed generation is reported to Lumen.
+ * - "message": one event per successful reply
+ * - "tokens": separate input and output token events
+ * - "credits": a single event weighted by CREDIT_PRICE_TABLE
+ */
+export type MeteringConfig =
+  | { mode: "message" }
+  | { mode: "tokens" }
+  | { mode: "credits" };
+
+export interface MeterEvent {
+  name: string;
+  value: number;
+}
+
+/**
+ * The metering for models without their own `metering`: the mode named by
+ * METERING_MODE, DEFAULT_METERING when it is unset or unknown.
+ */
+function getDefaultMetering(): MeteringConfig {
+  switch (process.env.METERING_MODE) {
+    case "tokens":
+      return { mode: "tokens" };
+    case "credits":
+      return { mode: "credits" };
+    default:
+      return DEFAULT_METERING;
+  }
+}
+
+export function getMeteringConfig(model: ModelConfig): MeteringConfig {
+  return model.metering ?? getDefaultMetering();
+}
+
+export interface Quota {
+  /** Lumen feature whose allowance is drawn down */
+  feature: string;
+  /** What the allowance counts, for display */
+  unit: string;
+}
+
+const QUOTAS: Record<MeteringConfig["mode"], Quota> = {
+  message: { feature: METER_EVENTS.messages, unit: "messages" },
+  tokens: { feature: METER_EVENTS.outputTokens, unit: "output tokens" },
+  credits: { feature: METER_EVENTS.credits, unit: "credits" },
+};
+
+/**
+ * The Lumen feature whose allowance a generation with `model` draws down,
+ * i.e. the one to check before generating.
+ */
+export function getQuotaFeature(model: ModelConfig): string {
+  return QUOTAS[getMeteringConfig(model).mode].feature;
+}
+
+/** The allowance drawn down by models without their own `metering`. */
+export function getDefaultQuota(): Quota {
+  return QUOTAS[getDefaultMetering().mode];
+}
+
+/**
+ * Unrounded credits for `usage` at CREDIT_PRICE_TABLE prices, or null when
+ * the model has no price configured.
+ */
+export function estimateCredits(
+  modelId: string,
+  usage: { inputTokens: number; outputTokens: number }
+): number | null {
+  const price = CREDIT_PRICE_TABLE[modelId];
+  if (!price) return null;
+  return (
+    (usage.inputTokens / 1000) * price.inputPer1k +
+    (usage.outputTokens / 1000) * price.outputPer1k
+  );
+}
+
+export function computeMeterEvents(
+  model: ModelConfig,
+  usage: { inputTokens: number; outputTokens: number }
+): MeterEvent[] {
+  const config = getMeteringConfig(model);
+
+  switch (config.mode) {
+    case "message":
+      return [{ name: METER_EVENTS.messages, value: 1 }];
+
+    case "tokens":
+      return [
+        { name: METER_EVENTS.inputTokens, value: usage.inputTokens },
+        { name: METER_EVENTS.outputTokens, value: usage.outputTokens },
+      ].filter((event) => event.value > 0);
+
+    case "credits": {
+      const credits = estimateCredits(model.id, usage);
+      if (credits === null) {
+        console.error(`No credit price configured for model: ${model.id}`);
+        return [{ name: METER_EVENTS.messages, value: 1 }];
+      }
+      // Round up so every successful reply costs at least one credit
+      return [
+        { name: METER_EVENTS.credits, value: Math.max(1, Math.ceil(credits)) },
+      ];
+    }
+  }
+}
+
+/**
+ * Sends the meter events for a successful generation. Failures are logged
+ * rather than thrown so that a Lumen outage never breaks a finished reply.
+ */
+export async function meterUsage(
+  userId: string,
+  model: ModelConfig,
+  usage: { inputTokens: number; outputTokens: number }
+): Promise<MeterEvent[]> {
+  const events = computeMeterEvents(model, usage);
+
+  await Promise.all(
+    events.map(async (event) => {
+      try {
+        await sendEvent({
+          name: event.name,
+          value: event.value,
+          userId,
+          apiUrl: process.env.LUMEN_API_URL,
+        });
+      } catch (error) {
+        console.error(`Failed to send Lumen event ${event.name}:`, error);
+      }
+    })
+  );
+
+  return events;
+}
@@ -0,0 +1,51 @@
+import { isFeatureEntitled } from "@getlumen/server";
+import {
+  AVAILABLE_MODELS,
+  MODEL_FEATURES,
+  type ModelConfig,
+  type PlanTier,
+} from "@/lib/constants";
+
+function isEntitled(userId: string, feature: string) {
+  return isFeatureEntitled({
+    feature,
+    userId,
+    apiUrl: process.env.LUMEN_API_URL,
+  });
+}
+
+/** Whether the user's plan includes the feature `model` requires. */
+export function isModelEntitled(
+  userId: string,
+  model: ModelConfig
+): Promise<boolean> {
+  return isEntitled(userId, model.feature);
+}
+
+/** The user's plan tier, which selects their rate limits. */
+export async function getPlanTier(userId: string): Promise<PlanTier> {
+  return (await isEntitled(userId, MODEL_FEATURES.premium))
+    ? "premium"
+    : "standard";
+}
+
+/**
+ * Returns which models the user may use, keyed by model id. Each distinct
+ * feature is checked once.
+ */
+export async function getModelAccess(
+  userId: string
+): Promise<Record<string, boolean>> {
+  const features = [...new Set(AVAILABLE_MODELS.map((m) => m.feature))];
+  const entitled = new Map(
+    await Promise.all(
+      features.map(
+        async (feature) => [feature, await isEntitled(userId, feature)] as const
+      )
+    )
+  );
+
+  return Object.fromEntries(
+    AVAILABLE_MODELS.map((model) => [model.id, entitled.get(model.feature)!])
+  );
+}
@@ -0,0 +1,173 @@
+import { DEFAULT_MAX_TOKENS } from "@/lib/chat/parameters";
+import { readSSE } from "@/lib/sse";
+import type { ChatProvider, ProviderToolCall, StreamChatResult } from "./types";
+
+// Anthropic takes tool input as an object; malformed JSON from the model
+// has already been reported back to it as a failed tool result
+function parseToolInput(json: string): unknown {
+  try {
+    return JSON.parse(json || "{}");
+  } catch {
+    return {};
+  }
+}
+
+export const anthropicProvider: ChatProvider = {
+  id: "anthropic",
+  name: "Anthropic",
+  apiKeyEnvVar: "ANTHROPIC_API_KEY",
+  capabilities: { images: true, textFiles: true, tools: true },
+
+  formatText(text) {
+    return { type: "text", text };
+  },
+
+  formatImage(attachment) {
+    // Extract base64 data without the data URL prefix
+    const base64Data = attachment.data.split(",")[1];
+    return {
+      type: "image",
+      source: {
+        type: "base64",
+        media_type: attachment.mimeType,
+        data: base64Data,
+      },
+    };
+  },
+
+  formatToolStep(text, calls, results) {
+    return [
+      {
+        role: "assistant",
+        content: [
+          ...(text ? [{ type: "text", text }] : []),
+          ...calls.map((call) => ({
+            type: "tool_use",
+            id: call.id,
+            name: call.name,
+            input: parseToolInput(call.arguments),
+          })),
+        ],
+      },
+      // Anthropic expects tool results as content of the next user turn
+      {
+        role: "user",
+        content: results.map((result) => ({
+          type: "tool_result",
+          tool_use_id: result.id,
+          content: result.content,
+        })),
+      },
+    ];
+  },
+
+  async streamChat(params, onContent) {
+    const usage: StreamChatResult = {
+      inputTokens: 0,
+      outputTokens: 0,
+      totalTokens: 0,
+      characters: 0,
+      finishReason: "",
+    };
+    // tool_use blocks keyed by their content block index
+    const toolCalls = new Map<number, ProviderToolCall>();
+
+    try {
+      const response = await fetch("https://api.anthropic.com/v1/messages", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-api-key": params.apiKey,
+          "anthropic-version": "2023-06-01",
+        },
+        body: JSON.stringify({
+          model: params.model,
+          // Anthropic takes the system prompt as a top-level field
+          ...(params.system ? { system: params.system } : {}),
+          messages: params.messages,
+          // Required by Anthropic, unlike the other providers
+          max_tokens: params.parameters?.maxTokens ?? DEFAULT_MAX_TOKENS,
+          temperature: params.parameters?.temperature,
+          top_p: params.parameters?.topP,
+          tools: params.tools?.map((tool) => ({
+            name: tool.name,
+            description: tool.description,
+            input_schema: tool.inputSchema,
+          })),
+          stream: true,
+        }),
+        signal: params.signal,
+      });
+
+      if (!response.ok) {
+        throw new Error(
+          `Anthropic API error: ${response.status} ${response.statusText}`
+        );
+      }
+
+      if (!response.body) {
+        throw new Error("Failed to read Anthropic response body");
+      }
+
+      for await (const { data } of readSSE(response.body)) {
+        let parsed;
+        try {
+          parsed = JSON.parse(data);
+        } catch (error) {
+          console.error("Error parsing Anthropic response:", error);
+          continue;
+        }
+
+        // Handle content_block_delta events for text
+        if (
+          parsed.type === "content_block_delta" &&
+          parsed.delta?.type === "text_delta"
+        ) {
+          usage.characters += parsed.delta.text.length;
+          onContent(parsed.delta.text);
+        }
+
+        // Tool calls start with a tool_use block and stream their input JSON
+        if (
+          parsed.type === "content_block_start" &&
+          parsed.content_block?.type === "tool_use"
+        ) {
+          toolCalls.set(parsed.index, {
+            id: parsed.content_block.id,
+            name: parsed.content_block.name,
+            arguments: "",
+          });
+        }
+        if (
+          parsed.type === "content_block_delta" &&
+          parsed.delta?.type === "input_json_delta"
+        ) {
+          const call = toolCalls.get(parsed.index);
+          if (call) call.arguments += parsed.delta.partial_json;
+        }
+
+        // Handle usage information from message_start event (contains input_tokens)
+        if (parsed.type === "message_start" && parsed.message?.usage) {
+          usage.inputTokens = parsed.message.usage.input_tokens || 0;
+        }
+
+        // Handle usage information from message_delta event (contains final output_tokens)
+        if (parsed.type === "message_delta") {
+          if (parsed.usage) {
+            usage.outputTokens = parsed.usage.output_tokens || 0;
+          }
+          if (parsed.delta?.stop_reason) {
+            usage.finishReason = parsed.delta.stop_reason;
+          }
+        }
+      }
+    } catch (error) {
+      if (!params.signal?.aborted) throw error;
+      usage.finishReason = "aborted";
+    }
+
+    usage.totalTokens = usage.inputTokens + usage.outputTokens;
+    if (toolCalls.size > 0) usage.toolCalls = [...toolCalls.values()];
+    return usage;
+  },
+};
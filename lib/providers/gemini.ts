@@ -0,0 +1,85 @@
+import type { Content, Part } from "@google/genai";
+import type { ChatProvider, ProviderUsage } from "./types";
+
+export const geminiProvider: ChatProvider = {
+  id: "gemini",
+  name: "Google Gemini",
+  apiKeyEnvVar: "GEMINI_API_KEY",
+  capabilities: { images: true, textFiles: true, tools: false },
+
+  // Gemini expects its own "parts" shape rather than typed content blocks
+  formatText(text) {
+    return { text };
+  },
+
+  formatImage(attachment) {
+    return {
+      inlineData: {
+        mimeType: attachment.mimeType,
+        data: attachment.data.split(",")[1],
+      },
+    };
+  },
+
+  async streamChat(params, onContent) {
+    // Loaded lazily so the SDK stays out of the client bundle
+    const { GoogleGenAI } = await import("@google/genai");
+    const ai = new GoogleGenAI({ apiKey: params.apiKey });
+
+    // Gemini calls the assistant role "model" and expects content as parts
+    const contents: Content[] = params.messages.map((message) => ({
+      role: message.role === "assistant" ? "model" : "user",
+      parts:
+        typeof message.content === "string"
+          ? [{ text: message.content }]
+          : (message.content as Part[]),
+    }));
+
+    const usage: ProviderUsage = {
+      inputTokens: 0,
+      outputTokens: 0,
+      totalTokens: 0,
+      characters: 0,
+      finishReason: "",
+    };
+
+    try {
+      const stream = await ai.models.generateContentStream({
+        model: params.model,
+        contents,
+        config: {
+          abortSignal: params.signal,
+          systemInstruction: params.system || undefined,
+          temperature: params.parameters?.temperature,
+          topP: params.parameters?.topP,
+          maxOutputTokens: params.parameters?.maxTokens,
+        },
+      });
+
+      for await (const chunk of stream) {
+        const content = chunk.text || "";
+        if (content) {
+          usage.characters += content.length;
+          onContent(content);
+        }
+
+        // Usage metadata is cumulative, so the last chunk holds the final counts
+        if (chunk.usageMetadata) {
+          usage.inputTokens = chunk.usageMetadata.promptTokenCount || 0;
+          usage.outputTokens = chunk.usageMetadata.candidatesTokenCount || 0;
+        }
+
+        const finishReason = chunk.candidates?.[0]?.finishReason;
+        if (finishReason) {
+          usage.finishReason = finishReason;
+        }
+      }
+    } catch (error) {
+      if (!params.signal?.aborted) throw error;
+      usage.finishReason = "aborted";
+    }
+
+    usage.totalTokens = usage.inputTokens + usage.outputTokens;
+    return usage;
+  },
+};
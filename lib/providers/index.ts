@@ -0,0 +1,67 @@
+import type { Message } from "@/lib/chat/types";
+import type { ChatProvider, ProviderId, ProviderMessage } from "./types";
+import { openaiProvider } from "./openai";
+import { anthropicProvider } from "./anthropic";
+import { geminiProvider } from "./gemini";
+
+export type * from "./types";
+
+// Registry of chat providers keyed by the `provider` field of AVAILABLE_MODELS.
+// Adding a provider means adding a module above and an entry here.
+const PROVIDERS: Record<ProviderId, ChatProvider> = {
+  openai: openaiProvider,
+  anthropic: anthropicProvider,
+  gemini: geminiProvider,
+};
+
+export function listProviders(): ChatProvider[] {
+  return Object.values(PROVIDERS);
+}
+
+export function getProvider(id: string): ChatProvider | undefined {
+  return Object.prototype.hasOwnProperty.call(PROVIDERS, id)
+    ? PROVIDERS[id as ProviderId]
+    : undefined;
+}
+
+/**
+ * Converts chat messages into the provider's wire format. Messages with
+ * attachments become multimodal content arrays; attachments the provider
+ * cannot accept are dropped.
+ */
+export function formatMessagesForProvider(
+  provider: ChatProvider,
+  messages: Message[]
+): ProviderMessage[] {
+  return messages.map((message) => {
+    if (!message.attachments || message.attachments.length === 0) {
+      return {
+        role: message.role,
+        content: message.content,
+      };
+    }
+
+    const contentParts: unknown[] = [];
+
+    // Add text content if present
+    if (message.content.trim()) {
+      contentParts.push(provider.formatText(message.content));
+    }
+
+    message.attachments.forEach((attachment) => {
+      if (attachment.type === "image" && provider.capabilities.images) {
+        contentParts.push(provider.formatImage(attachment));
+      } else if (attachment.type === "text" && provider.capabilities.textFiles) {
+        // For text files, include the content as text
+        contentParts.push(
+          provider.formatText(`File: ${attachment.name}\n\n${attachment.data}`)
+        );
+      }
+    });
+
+    return {
+      role: message.role,
+      content: contentParts,
+    };
+  });
+}
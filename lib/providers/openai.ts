@@ -0,0 +1,120 @@
+import type { ChatProvider, ProviderToolCall, StreamChatResult } from "./types";
+
+export const openaiProvider: ChatProvider = {
+  id: "openai",
+  name: "OpenAI",
+  apiKeyEnvVar: "OPENAI_API_KEY",
+  capabilities: { images: true, textFiles: true, tools: true },
+
+  formatText(text) {
+    return { type: "text", text };
+  },
+
+  formatImage(attachment) {
+    return {
+      type: "image_url",
+      image_url: {
+        url: attachment.data, // includes data:image/jpeg;base64, prefix
+      },
+    };
+  },
+
+  formatToolStep(text, calls, results) {
+    return [
+      {
+        role: "assistant",
+        content: text || null,
+        tool_calls: calls.map((call) => ({
+          id: call.id,
+          type: "function",
+          function: { name: call.name, arguments: call.arguments },
+        })),
+      },
+      ...results.map((result) => ({
+        role: "tool",
+        tool_call_id: result.id,
+        content: result.content,
+      })),
+    ];
+  },
+
+  async streamChat(params, onContent) {
+    // Loaded lazily so the SDK stays out of the client bundle
+    const { default: OpenAI } = await import("openai");
+    const client = new OpenAI({ apiKey: params.apiKey });
+
+    const usage: StreamChatResult = {
+      inputTokens: 0,
+      outputTokens: 0,
+      totalTokens: 0,
+      characters: 0,
+      finishReason: "",
+    };
+    // Tool calls arrive in fragments keyed by their index in the response
+    const toolCalls: ProviderToolCall[] = [];
+
+    try {
+      const stream = await client.chat.completions.create(
+        {
+          model: params.model,
+          messages: (params.system
+            ? [{ role: "system", content: params.system }, ...params.messages]
+            : params.messages) as any,
+          temperature: params.parameters?.temperature,
+          top_p: params.parameters?.topP,
+          max_tokens: params.parameters?.maxTokens,
+          tools: params.tools?.map((tool) => ({
+            type: "function" as const,
+            function: {
+              name: tool.name,
+              description: tool.description,
+              parameters: tool.inputSchema,
+            },
+          })),
+          stream: true,
+          stream_options: { include_usage: true },
+        },
+        { signal: params.signal }
+      );
+
+      for await (const chunk of stream) {
+        const content = chunk.choices[0]?.delta?.content || "";
+        if (content) {
+          usage.characters += content.length;
+          onContent(content);
+        }
+
+        for (const delta of chunk.choices[0]?.delta?.tool_calls ?? []) {
+          const call = (toolCalls[delta.index] ??= {
+            id: "",
+            name: "",
+            arguments: "",
+          });
+          if (delta.id) call.id = delta.id;
+          if (delta.function?.name) call.name += delta.function.name;
+          if (delta.function?.arguments) {
+            call.arguments += delta.function.arguments;
+          }
+        }
+
+        // Capture usage information from the final chunk
+        if (chunk.usage) {
+          usage.totalTokens = chunk.usage.total_tokens;
+          usage.inputTokens = chunk.usage.prompt_tokens;
+          usage.outputTokens = chunk.usage.completion_tokens;
+        }
+
+        // Capture finish reason
+        if (chunk.choices[0]?.finish_reason) {
+          usage.finishReason = chunk.choices[0].finish_reason;
+        }
+      }
+    } catch (error) {
+      if (!params.signal?.aborted) throw error;
+      usage.finishReason = "aborted";
+    }
+
+    if (toolCalls.length > 0) usage.toolCalls = toolCalls;
+    return usage;
+  },
+};
@@ -0,0 +1,105 @@
+import type { Attachment, GenerationParameters } from "@/lib/chat/types";
+
+export type ProviderId = "openai" | "anthropic" | "gemini";
+
+/**
+ * A message in the shape the provider's API expects. Produced in the browser
+ * by `formatMessagesForProvider` and sent as-is to `/api/chat`.
+ */
+export interface ProviderMessage {
+  role: string;
+  /** Null only on OpenAI assistant turns that consist of tool calls. */
+  content: string | any[] | null;
+  /** OpenAI's tool call fields; other providers use content parts. */
+  tool_calls?: unknown[];
+  tool_call_id?: string;
+}
+
+export interface ProviderUsage {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  characters: number;
+  finishReason: string;
+}
+
+export interface ProviderCapabilities {
+  /** Whether image attachments can be sent to the model. */
+  images: boolean;
+  /** Whether text file attachments can be inlined into the prompt. */
+  textFiles: boolean;
+  /** Whether the model can call the tools in lib/tools. */
+  tools: boolean;
+}
+
+/** A tool offered to the model, with its arguments as JSON Schema. */
+export interface ProviderToolSpec {
+  name: string;
+  description: string;
+  inputSchema: Record<string, unknown>;
+}
+
+export interface ProviderToolCall {
+  id: string;
+  name: string;
+  /** Arguments as the raw JSON text the model produced. */
+  arguments: string;
+}
+
+export interface ProviderToolResult {
+  /** Id of the call this answers. */
+  id: string;
+  name: string;
+  /** Result serialized as text for the model. */
+  content: string;
+}
+
+export interface StreamChatResult extends ProviderUsage {
+  /** Tools the model asked to call before it can continue. */
+  toolCalls?: ProviderToolCall[];
+}
+
+export interface StreamChatParams {
+  model: string;
+  messages: ProviderMessage[];
+  apiKey: string;
+  /** System prompt; each provider maps it to its own field. */
+  system?: string;
+  /** Validated sampling parameters; unset fields use provider defaults. */
+  parameters?: GenerationParameters;
+  /** Aborts the upstream request, e.g. when the user presses Stop. */
+  signal?: AbortSignal;
+  /** Tools the model may call; only passed when `capabilities.tools`. */
+  tools?: ProviderToolSpec[];
+}
+
+export interface ChatProvider {
+  id: ProviderId;
+  name: string;
+  /** Environment variable holding the server-side API key. */
+  apiKeyEnvVar: string;
+  capabilities: ProviderCapabilities;
+  /** Builds a text content part for a multimodal message. */
+  formatText(text: string): unknown;
+  /** Builds an image content part from an attachment's data URL. */
+  formatImage(attachment: Attachment): unknown;
+  /**
+   * Builds the messages that record one tool step: the assistant turn with
+   * its text and calls, followed by the results of those calls.
+   */
+  formatToolStep?(
+    text: string,
+    calls: ProviderToolCall[],
+    results: ProviderToolResult[]
+  ): ProviderMessage[];
+  /**
+   * Streams a completion, calling `onContent` for every text delta, and
+   * resolves with the usage reported by the provider and any tool calls.
+   * When `signal` aborts, resolves with the usage so far and a finish reason
+   * of "aborted".
+   */
+  streamChat(
+    params: StreamChatParams,
+    onContent: (content: string) => void
+  ): Promise<StreamChatResult>;
+}
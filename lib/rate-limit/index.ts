@@ -0,0 +1,97 @@
+import { RATE_LIMITS, type PlanTier } from "@/lib/constants";
+import { createMemoryRateLimitStore } from "./memory-store";
+import { createSupabaseRateLimitStore } from "./supabase-store";
+import type { RateLimitStore } from "./types";
+
+export type * from "./types";
+
+// A lease outlives any generation; it only expires early if the server died
+const LEASE_TTL_MS = 10 * 60 * 1000;
+
+// No way to know when a running generation ends, so suggest a short wait
+const CONCURRENCY_RETRY_AFTER_SECONDS = 5;
+
+// Kept on globalThis so that the memory store is shared by all route handlers
+const globalForRateLimit = globalThis as unknown as {
+  rateLimitStore?: RateLimitStore;
+};
+
+/**
+ * Returns the store selected by RATE_LIMIT_STORE: "supabase" for the
+ * database tables, anything else for process memory.
+ */
+export function getRateLimitStore(): RateLimitStore {
+  globalForRateLimit.rateLimitStore ??=
+    process.env.RATE_LIMIT_STORE === "supabase"
+      ? createSupabaseRateLimitStore()
+      : createMemoryRateLimitStore();
+  return globalForRateLimit.rateLimitStore;
+}
+
+export type RateLimitResult =
+  | {
+      ok: true;
+      /** Frees the concurrency slot; call it once the generation ends. */
+      release: () => Promise<void>;
+    }
+  | {
+      ok: false;
+      reason: "rate" | "concurrency";
+      retryAfterSeconds: number;
+    };
+
+/**
+ * Applies the limits of `tier` to one chat request: a slot among the
+ * user's concurrent generations and a token from their request bucket.
+ */
+export async function checkRateLimit(
+  userId: string,
+  tier: PlanTier
+): Promise<RateLimitResult> {
+  const store = getRateLimitStore();
+  const limits = RATE_LIMITS[tier];
+  const key = `chat:${userId}`;
+  const leaseId = crypto.randomUUID();
+
+  // The slot comes first so that a request turned away for concurrency
+  // does not also use up a token
+  if (
+    !(await store.acquire(key, leaseId, limits.maxConcurrent, LEASE_TTL_MS))
+  ) {
+    return {
+      ok: false,
+      reason: "concurrency",
+      retryAfterSeconds: CONCURRENCY_RETRY_AFTER_SECONDS,
+    };
+  }
+
+  const release = async () => {
+    try {
+      await store.release(key, leaseId);
+    } catch (error) {
+      console.error("Failed to release rate limit lease:", error);
+    }
+  };
+
+  let waitSeconds: number;
+  try {
+    waitSeconds = await store.take(key, {
+      capacity: limits.burst,
+      refillPerSecond: limits.perMinute / 60,
+    });
+  } catch (error) {
+    await release();
+    throw error;
+  }
+
+  if (waitSeconds > 0) {
+    await release();
+    return {
+      ok: false,
+      reason: "rate",
+      retryAfterSeconds: Math.ceil(waitSeconds),
+    };
+  }
+
+  return { ok: true, release };
+}
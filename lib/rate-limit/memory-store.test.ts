@@ -0,0 +1,71 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createMemoryRateLimitStore } from "./memory-store";
+
+const bucket = { capacity: 2, refillPerSecond: 1 };
+
+describe("createMemoryRateLimitStore", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe("take", () => {
+    it("allows a burst up to the capacity, then reports the wait", async () => {
+      const store = createMemoryRateLimitStore();
+      expect(await store.take("user", bucket)).toBe(0);
+      expect(await store.take("user", bucket)).toBe(0);
+      expect(await store.take("user", bucket)).toBeCloseTo(1);
+    });
+
+    it("refills over time without exceeding the capacity", async () => {
+      const store = createMemoryRateLimitStore();
+      await store.take("user", bucket);
+      await store.take("user", bucket);
+
+      vi.setSystemTime(500);
+      expect(await store.take("user", bucket)).toBeCloseTo(0.5);
+
+      vi.setSystemTime(60_000);
+      expect(await store.take("user", bucket)).toBe(0);
+      expect(await store.take("user", bucket)).toBe(0);
+      expect(await store.take("user", bucket)).toBeGreaterThan(0);
+    });
+
+    it("keeps a bucket per key", async () => {
+      const store = createMemoryRateLimitStore();
+      await store.take("a", bucket);
+      await store.take("a", bucket);
+      expect(await store.take("b", bucket)).toBe(0);
+    });
+  });
+
+  describe("acquire and release", () => {
+    it("grants at most `max` leases per key", async () => {
+      const store = createMemoryRateLimitStore();
+      expect(await store.acquire("user", "1", 2, 1000)).toBe(true);
+      expect(await store.acquire("user", "2", 2, 1000)).toBe(true);
+      expect(await store.acquire("user", "3", 2, 1000)).toBe(false);
+      expect(await store.acquire("other", "4", 2, 1000)).toBe(true);
+    });
+
+    it("frees a slot on release", async () => {
+      const store = createMemoryRateLimitStore();
+      await store.acquire("user", "1", 1, 1000);
+      await store.release("user", "1");
+      expect(await store.acquire("user", "2", 1, 1000)).toBe(true);
+    });
+
+    it("lets expired leases lapse", async () => {
+      const store = createMemoryRateLimitStore();
+      await store.acquire("user", "1", 1, 1000);
+      vi.setSystemTime(999);
+      expect(await store.acquire("user", "2", 1, 1000)).toBe(false);
+      vi.setSystemTime(1001);
+      expect(await store.acquire("user", "2", 1, 1000)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,45 @@
+import type { RateLimitStore } from "./types";
+
+/**
+ * Keeps buckets and leases in process memory. Limits then apply per server
+ * instance; use the Supabase store to enforce them across instances.
+ */
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const buckets = new Map<string, { tokens: number; updatedAt: number }>();
+  const leases = new Map<string, Map<string, number>>();
+
+  return {
+    async take(key, { capacity, refillPerSecond }) {
+      const now = Date.now();
+      const bucket = buckets.get(key) ?? { tokens: capacity, updatedAt: now };
+      const tokens = Math.min(
+        capacity,
+        bucket.tokens + ((now - bucket.updatedAt) / 1000) * refillPerSecond
+      );
+
+      if (tokens >= 1) {
+        buckets.set(key, { tokens: tokens - 1, updatedAt: now });
+        return 0;
+      }
+      buckets.set(key, { tokens, updatedAt: now });
+      return (1 - tokens) / refillPerSecond;
+    },
+
+    async acquire(key, leaseId, max, ttlMs) {
+      const now = Date.now();
+      const active = leases.get(key) ?? new Map<string, number>();
+      for (const [id, expiresAt] of active) {
+        if (expiresAt < now) active.delete(id);
+      }
+      if (active.size >= max) return false;
+
+      active.set(leaseId, now + ttlMs);
+      leases.set(key, active);
+      return true;
+    },
+
+    async release(key, leaseId) {
+      leases.get(key)?.delete(leaseId);
+    },
+  };
+}
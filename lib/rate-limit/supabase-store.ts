@@ -0,0 +1,42 @@
+import { createAdminClient } from "@/lib/supabase/admin";
+import type { RateLimitStore } from "./types";
+
+/**
+ * Keeps buckets and leases in Postgres. Both checks run as database
+ * functions (see the rate_limits migration) so that concurrent requests
+ * cannot race past a limit.
+ */
+export function createSupabaseRateLimitStore(): RateLimitStore {
+  const supabase = createAdminClient();
+
+  return {
+    async take(key, { capacity, refillPerSecond }) {
+      const { data, error } = await supabase.rpc("take_rate_limit_token", {
+        p_key: key,
+        p_capacity: capacity,
+        p_refill_per_second: refillPerSecond,
+      });
+      if (error) throw error;
+      return data as number;
+    },
+
+    async acquire(key, leaseId, max, ttlMs) {
+      const { data, error } = await supabase.rpc("acquire_rate_limit_lease", {
+        p_key: key,
+        p_lease_id: leaseId,
+        p_max: max,
+        p_ttl_seconds: Math.ceil(ttlMs / 1000),
+      });
+      if (error) throw error;
+      return data as boolean;
+    },
+
+    async release(_key, leaseId) {
+      const { error } = await supabase
+        .from("rate_limit_leases")
+        .delete()
+        .eq("lease_id", leaseId);
+      if (error) throw error;
+    },
+  };
+}
@@ -0,0 +1,24 @@
+export interface TokenBucket {
+  capacity: number;
+  refillPerSecond: number;
+}
+
+/** Storage for token buckets and concurrency leases, keyed by string. */
+export interface RateLimitStore {
+  /**
+   * Takes one token from the bucket under `key`. Returns 0 when a token was
+   * taken, otherwise the seconds until one becomes available.
+   */
+  take(key: string, bucket: TokenBucket): Promise<number>;
+  /**
+   * Acquires one of `max` concurrency slots under `key`. Leases expire after
+   * `ttlMs` so that a crashed request cannot hold a slot forever.
+   */
+  acquire(
+    key: string,
+    leaseId: string,
+    max: number,
+    ttlMs: number
+  ): Promise<boolean>;
+  release(key: string, leaseId: string): Promise<void>;
+}
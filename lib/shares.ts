@@ -0,0 +1,142 @@
+import { randomBytes } from "node:crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { toAttachmentMetadata } from "@/lib/conversations";
+import type { Message } from "@/lib/chat/types";
+
+// Public read-only snapshots of chats. Owners create and revoke them through
+// their own client; the public page reads them with the service role, since
+// visitors are usually signed out.
+
+const TABLE = "shared_chats";
+
+// How long the Storage URLs on a shared page stay valid
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+export interface ChatShare {
+  slug: string;
+  createdAt: Date;
+}
+
+export interface SharedChat extends ChatShare {
+  title: string;
+  messages: Message[];
+  /** Signed Storage URLs by attachment id */
+  attachmentUrls: Record<string, string>;
+}
+
+/** The chat's link that is still live, if any. */
+export async function getActiveShare(
+  supabase: SupabaseClient,
+  chatId: string
+): Promise<ChatShare | null> {
+  const { data, error } = await supabase
+    .from(TABLE)
+    .select("slug, created_at")
+    .eq("chat_id", chatId)
+    .is("revoked_at", null)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data
+    ? { slug: data.slug, createdAt: new Date(data.created_at) }
+    : null;
+}
+
+/** Revokes every live link of the chat. */
+export async function revokeShares(
+  supabase: SupabaseClient,
+  chatId: string
+): Promise<void> {
+  const { error } = await supabase
+    .from(TABLE)
+    .update({ revoked_at: new Date().toISOString() })
+    .eq("chat_id", chatId)
+    .is("revoked_at", null);
+
+  if (error) throw error;
+}
+
+/**
+ * Snapshots `messages` under a new unguessable slug, replacing the chat's
+ * previous link so that there is only ever one per chat.
+ */
+export async function createShare(
+  supabase: SupabaseClient,
+  chat: { id: string; title: string; messages: Message[] }
+): Promise<ChatShare> {
+  await revokeShares(supabase, chat.id);
+
+  const slug = randomBytes(18).toString("base64url");
+  const { data, error } = await supabase
+    .from(TABLE)
+    .insert({
+      slug,
+      chat_id: chat.id,
+      title: chat.title,
+      messages: chat.messages.map((message) => ({
+        ...message,
+        attachments:
+          message.attachments && toAttachmentMetadata(message.attachments),
+      })),
+    })
+    .select("created_at")
+    .single();
+
+  if (error) throw error;
+  return { slug, createdAt: new Date(data.created_at) };
+}
+
+/**
+ * Loads a live snapshot for the public page, with signed URLs for its
+ * attachments. Only files in the owner's own Storage folder are signed.
+ */
+export async function getSharedChat(slug: string): Promise<SharedChat | null> {
+  const supabase = createAdminClient();
+  const { data, error } = await supabase
+    .from(TABLE)
+    .select("slug, user_id, title, messages, created_at")
+    .eq("slug", slug)
+    .is("revoked_at", null)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return null;
+
+  const messages = data.messages as Message[];
+  const attachments = messages
+    .flatMap((message) => message.attachments ?? [])
+    .filter((attachment) =>
+      attachment.supabasePath?.startsWith(`${data.user_id}/`)
+    );
+
+  const attachmentUrls: Record<string, string> = {};
+  if (attachments.length > 0) {
+    const { data: signed, error: signError } = await supabase.storage
+      .from("files")
+      .createSignedUrls(
+        attachments.map((attachment) => attachment.supabasePath!),
+        SIGNED_URL_TTL_SECONDS
+      );
+
+    if (signError) {
+      console.error("Failed to sign shared attachments:", signError);
+    } else {
+      signed.forEach((entry, i) => {
+        if (entry.signedUrl) {
+          attachmentUrls[attachments[i].id] = entry.signedUrl;
+        }
+      });
+    }
+  }
+
+  return {
+    slug: data.slug,
+    title: data.title,
+    messages,
+    attachmentUrls,
+    createdAt: new Date(data.created_at),
+  };
+}
@@ -0,0 +1,169 @@
+import { describe, expect, it } from "vitest";
+import { encodeSSE, readSSE, SSEParser, type SSEEvent } from "./sse";
+
+function parseAll(chunks: string[]): SSEEvent[] {
+  const parser = new SSEParser();
+  return chunks.flatMap((chunk) => parser.feed(chunk));
+}
+
+function streamOf(chunks: Uint8Array[]): ReadableStream<Uint8Array> {
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(chunk);
+      controller.close();
+    },
+  });
+}
+
+async function collect(body: ReadableStream<Uint8Array>) {
+  const events: SSEEvent[] = [];
+  for await (const event of readSSE(body)) events.push(event);
+  return events;
+}
+
+describe("SSEParser", () => {
+  it("parses a single frame", () => {
+    expect(parseAll(["data: hello\n\n"])).toEqual([
+      { event: "message", data: "hello" },
+    ]);
+  });
+
+  it("keeps frames split across chunks until they are complete", () => {
+    const parser = new SSEParser();
+    expect(parser.feed("da")).toEqual([]);
+    expect(parser.feed("ta: hel")).toEqual([]);
+    expect(parser.feed("lo\n")).toEqual([]);
+    expect(parser.feed("\ndata: next\n\n")).toEqual([
+      { event: "message", data: "hello" },
+      { event: "message", data: "next" },
+    ]);
+  });
+
+  it("splits the input at every character the same way", () => {
+    const text = "event: ping\nid: 7\ndata: a\ndata: b\n\ndata: c\r\n\r\n";
+    const whole = parseAll([text]);
+    expect(parseAll([...text])).toEqual(whole);
+    expect(whole).toEqual([
+      { event: "ping", data: "a\nb", id: "7" },
+      { event: "message", data: "c", id: "7" },
+    ]);
+  });
+
+  it("accepts CRLF, CR and LF line endings", () => {
+    expect(parseAll(["data: a\r\n\r\ndata: b\r\rdata: c\n\n"])).toEqual([
+      { event: "message", data: "a" },
+      { event: "message", data: "b" },
+      { event: "message", data: "c" },
+    ]);
+  });
+
+  it("waits for the LF of a CRLF split across chunks", () => {
+    const parser = new SSEParser();
+    expect(parser.feed("data: a\r")).toEqual([]);
+    expect(parser.feed("\n\r")).toEqual([]);
+    expect(parser.feed("\n")).toEqual([{ event: "message", data: "a" }]);
+  });
+
+  it("joins multi-line data with newlines", () => {
+    expect(parseAll(["data: one\ndata:two\ndata\n\n"])).toEqual([
+      { event: "message", data: "one\ntwo\n" },
+    ]);
+  });
+
+  it("ignores comments and unknown fields", () => {
+    expect(parseAll([": keep-alive\nfoo: bar\ndata: x\n\n"])).toEqual([
+      { event: "message", data: "x" },
+    ]);
+  });
+
+  it("does not dispatch frames without data", () => {
+    expect(parseAll(["event: empty\n\n: ping\n\n"])).toEqual([]);
+  });
+
+  it("carries the last event id to later frames", () => {
+    expect(parseAll(["id: 1\ndata: a\n\ndata: b\n\nid\ndata: c\n\n"])).toEqual([
+      { event: "message", data: "a", id: "1" },
+      { event: "message", data: "b", id: "1" },
+      { event: "message", data: "c", id: "" },
+    ]);
+  });
+
+  it("ignores ids containing NUL and non-numeric retries", () => {
+    expect(
+      parseAll([
+        "id: 2\nretry: soon\ndata: a\n\nid: 3\0\nretry: 500\ndata: b\n\n",
+      ])
+    ).toEqual([
+      { event: "message", data: "a", id: "2" },
+      { event: "message", data: "b", id: "2", retry: 500 },
+    ]);
+  });
+
+  it("drops an unterminated frame on reset", () => {
+    const parser = new SSEParser();
+    expect(parser.feed("data: partial\n")).toEqual([]);
+    parser.reset();
+    expect(parser.feed("\ndata: next\n\n")).toEqual([
+      { event: "message", data: "next" },
+    ]);
+  });
+});
+
+describe("encodeSSE", () => {
+  it("writes the event, id and data fields", () => {
+    expect(encodeSSE({ event: "ping", id: "4", data: "x" })).toBe(
+      "event: ping\nid: 4\ndata: x\n\n"
+    );
+  });
+
+  it.each([
+    "plain",
+    "",
+    "two\nlines",
+    "crlf\r\nlines",
+    "lone\rcr",
+    " leading space",
+    ": looks like a comment",
+    "data: nested",
+    JSON.stringify({ type: "content", content: "a\nb" }),
+  ])("round-trips %j through SSEParser", (data) => {
+    const [event] = parseAll([encodeSSE({ data, id: "1" })]);
+    expect(event).toEqual({
+      event: "message",
+      // Any line ending comes back as "\n"
+      data: data.replace(/\r\n|\r/g, "\n"),
+      id: "1",
+    });
+  });
+});
+
+describe("readSSE", () => {
+  it("decodes multi-byte characters split across chunks", async () => {
+    const bytes = new TextEncoder().encode(encodeSSE({ data: "héllo 👋" }));
+    // Split inside "é" and inside the emoji
+    const cuts = [9, bytes.length - 4];
+    const chunks = [
+      bytes.slice(0, cuts[0]),
+      bytes.slice(cuts[0], cuts[1]),
+      bytes.slice(cuts[1]),
+    ];
+
+    expect(await collect(streamOf(chunks))).toEqual([
+      { event: "message", data: "héllo 👋" },
+    ]);
+  });
+
+  it("yields every frame of a stream delivered one byte at a time", async () => {
+    const text =
+      encodeSSE({ id: "1", data: "first" }) +
+      ": ping\n\n" +
+      encodeSSE({ id: "2", data: "second\nline" });
+    const bytes = new TextEncoder().encode(text);
+    const chunks = [...bytes].map((byte) => Uint8Array.of(byte));
+
+    expect(await collect(streamOf(chunks))).toEqual([
+      { event: "message", data: "first", id: "1" },
+      { event: "message", data: "second\nline", id: "2" },
+    ]);
+  });
+});
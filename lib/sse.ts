@@ -0,0 +1,146 @@
+// Server-sent events codec used by /api/chat, the chat page and the
+// providers that stream SSE over fetch. Parsing follows the WHATWG
+// EventSource rules, so frames may be split across network chunks at any
+// byte, including in the middle of a multi-byte character.
+
+export interface SSEEvent {
+  /** The `event:` field; "message" when the frame does not set one. */
+  event: string;
+  /** All `data:` lines of the frame joined with "\n". */
+  data: string;
+  /** Last `id:` seen on the stream, as the browser's `lastEventId`. */
+  id?: string;
+  /** Reconnection delay in milliseconds from a `retry:` field. */
+  retry?: number;
+}
+
+/**
+ * Incremental SSE parser. Feed it decoded text as it arrives and it returns
+ * the events completed by that text; incomplete lines are kept until the
+ * next call.
+ */
+export class SSEParser {
+  private buffer = "";
+  private data: string[] = [];
+  private eventType = "";
+  private lastEventId: string | undefined;
+  private retry: number | undefined;
+
+  feed(text: string): SSEEvent[] {
+    this.buffer += text;
+    const events: SSEEvent[] = [];
+
+    while (true) {
+      const match = /\r\n|\r|\n/.exec(this.buffer);
+      if (!match) break;
+
+      // A trailing "\r" may be the first half of a "\r\n" split across
+      // chunks; wait for more input before treating it as a line end
+      if (match[0] === "\r" && match.index === this.buffer.length - 1) break;
+
+      const line = this.buffer.slice(0, match.index);
+      this.buffer = this.buffer.slice(match.index + match[0].length);
+
+      const event = this.processLine(line);
+      if (event) events.push(event);
+    }
+
+    return events;
+  }
+
+  /** Ends the stream. A frame without its closing blank line is dropped. */
+  reset(): void {
+    this.buffer = "";
+    this.data = [];
+    this.eventType = "";
+  }
+
+  private processLine(line: string): SSEEvent | undefined {
+    if (line === "") return this.dispatch();
+
+    // Lines starting with a colon are comments, e.g. keep-alive pings
+    if (line.startsWith(":")) return undefined;
+
+    const colon = line.indexOf(":");
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? "" : line.slice(colon + 1);
+    if (value.startsWith(" ")) value = value.slice(1);
+
+    switch (field) {
+      case "data":
+        this.data.push(value);
+        break;
+      case "event":
+        this.eventType = value;
+        break;
+      case "id":
+        if (!value.includes("\0")) this.lastEventId = value;
+        break;
+      case "retry":
+        if (/^\d+$/.test(value)) this.retry = Number(value);
+        break;
+      // Unknown fields are ignored
+    }
+
+    return undefined;
+  }
+
+  private dispatch(): SSEEvent | undefined {
+    const data = this.data;
+    const eventType = this.eventType;
+    this.data = [];
+    this.eventType = "";
+
+    if (data.length === 0) return undefined;
+
+    return {
+      event: eventType || "message",
+      data: data.join("\n"),
+      ...(this.lastEventId !== undefined ? { id: this.lastEventId } : {}),
+      ...(this.retry !== undefined ? { retry: this.retry } : {}),
+    };
+  }
+}
+
+/** Yields the events of an SSE response body as they arrive. */
+export async function* readSSE(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<SSEEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const parser = new SSEParser();
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      // `stream: true` keeps multi-byte characters split across chunks intact
+      yield* parser.feed(decoder.decode(value, { stream: true }));
+    }
+    yield* parser.feed(decoder.decode());
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Encodes one SSE frame. Multi-line data is split into several `data:`
+ * lines so that it survives the round trip through `SSEParser`.
+ */
+export function encodeSSE({
+  data,
+  event,
+  id,
+}: {
+  data: string;
+  event?: string;
+  id?: string;
+}): string {
+  let frame = "";
+  if (event) frame += `event: ${event}\n`;
+  if (id !== undefined) frame += `id: ${id}\n`;
+  for (const line of data.split(/\r\n|\r|\n/)) {
+    frame += `data: ${line}\n`;
+  }
+  return `${frame}\n`;
+}
@@ -0,0 +1,19 @@
+import { createClient } from "@supabase/supabase-js";
+
+/**
+ * Service-role client that bypasses row level security. Only use it in
+ * server code for writes users must not be able to forge, and never expose
+ * SUPABASE_SERVICE_ROLE_KEY to the browser.
+ */
+export function createAdminClient() {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    {
+      auth: {
+        persistSession: false,
+        autoRefreshToken: false,
+      },
+    },
+  );
+}
@@ -0,0 +1,34 @@
+import type { ProviderMessage } from "@/lib/providers/types";
+
+// Rough heuristics used where a provider's count is not available: when a
+// stream is aborted before the final usage chunk arrives, and when fitting a
+// history into a model's context window before the request is made.
+export const CHARS_PER_TOKEN = 4;
+const IMAGE_TOKEN_ESTIMATE = 1000;
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/** Estimate for one message; images count as a flat IMAGE_TOKEN_ESTIMATE. */
+export function estimateProviderMessageTokens(
+  message: ProviderMessage
+): number {
+  if (!message.content) return 0;
+  if (typeof message.content === "string") {
+    return estimateTokens(message.content);
+  }
+  return message.content.reduce((sum: number, part: any) => {
+    if (typeof part?.text === "string") {
+      return sum + estimateTokens(part.text);
+    }
+    return sum + IMAGE_TOKEN_ESTIMATE;
+  }, 0);
+}
+
+export function estimateMessageTokens(messages: ProviderMessage[]): number {
+  return messages.reduce(
+    (total, message) => total + estimateProviderMessageTokens(message),
+    0
+  );
+}
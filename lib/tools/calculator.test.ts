@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { evaluateExpression } from "./calculator";
+
+describe("evaluateExpression", () => {
+  it.each([
+    ["2 + 3 * 4", 14],
+    ["(2 + 3) * 4", 20],
+    ["10 - 4 - 3", 3],
+    ["12 / 3 / 2", 2],
+    ["7 % 4 + 1", 4],
+    ["2 ^ 3 ^ 2", 512],
+    ["2 * 3 ^ 2", 18],
+  ])("respects precedence and associativity in %s", (expression, result) => {
+    expect(evaluateExpression(expression)).toBe(result);
+  });
+
+  it.each([
+    ["-3 + 5", 2],
+    ["--3", 3],
+    ["2 * -3", -6],
+    ["-2 ^ 2", -4],
+    ["2 ^ -1", 0.5],
+  ])("applies unary minus in %s", (expression, result) => {
+    expect(evaluateExpression(expression)).toBe(result);
+  });
+
+  it("parses decimals and exponents", () => {
+    expect(evaluateExpression(".5 + 1.25")).toBe(1.75);
+    expect(evaluateExpression("1e3 + 2.5e-1")).toBe(1000.25);
+  });
+
+  it("evaluates functions and constants case-insensitively", () => {
+    expect(evaluateExpression("sqrt(16) + abs(-2)")).toBe(6);
+    expect(evaluateExpression("floor(2.7) + CEIL(2.1)")).toBe(5);
+    expect(evaluateExpression("log(1000)")).toBe(3);
+    expect(evaluateExpression("ln(e)")).toBe(1);
+    expect(evaluateExpression("cos(pi)")).toBe(-1);
+  });
+
+  it("rejects division by zero", () => {
+    expect(() => evaluateExpression("1 / 0")).toThrow(
+      "Result is not a finite number"
+    );
+    expect(() => evaluateExpression("1 % 0")).toThrow(
+      "Result is not a finite number"
+    );
+  });
+
+  it.each(["foo", "sqrtx(4)", "constructor(1)", "toString", "valueOf(2)"])(
+    "rejects the unknown identifier %s",
+    (expression) => {
+      expect(() => evaluateExpression(expression)).toThrow(
+        "Unknown identifier"
+      );
+    }
+  );
+
+  it("rejects malformed expressions", () => {
+    expect(() => evaluateExpression("")).toThrow("Empty expression");
+    expect(() => evaluateExpression("2 +")).toThrow(
+      "Unexpected end of expression"
+    );
+    expect(() => evaluateExpression("(1 + 2")).toThrow('Expected ")"');
+    expect(() => evaluateExpression("1 2")).toThrow('Unexpected "2"');
+    expect(() => evaluateExpression("sqrt 4")).toThrow('Expected "("');
+  });
+});
@@ -0,0 +1,128 @@
+import { z } from "zod";
+import type { Tool } from "./types";
+
+const FUNCTIONS: Record<string, (value: number) => number> = {
+  sqrt: Math.sqrt,
+  abs: Math.abs,
+  round: Math.round,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  ln: Math.log,
+  log: Math.log10,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+};
+
+const CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E };
+
+/**
+ * Evaluates an arithmetic expression with + - * / % ^, parentheses and the
+ * functions above. A small recursive descent parser instead of `eval`, so
+ * the model cannot run arbitrary code.
+ */
+export function evaluateExpression(expression: string): number {
+  const tokens = expression.match(/\d+\.?\d*(?:e[+-]?\d+)?|\.\d+|[a-z]+|\S/gi);
+  if (!tokens) throw new Error("Empty expression");
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const next = () => tokens[position++];
+  const expect = (token: string) => {
+    if (next() !== token) throw new Error(`Expected "${token}"`);
+  };
+
+  // expression := term (("+" | "-") term)*
+  const parseExpression = (): number => {
+    let value = parseTerm();
+    while (peek() === "+" || peek() === "-") {
+      value = next() === "+" ? value + parseTerm() : value - parseTerm();
+    }
+    return value;
+  };
+
+  // term := unary (("*" | "/" | "%") unary)*
+  const parseTerm = (): number => {
+    let value = parseUnary();
+    while (peek() === "*" || peek() === "/" || peek() === "%") {
+      const operator = next();
+      const right = parseUnary();
+      if (operator === "*") value *= right;
+      else if (operator === "/") value /= right;
+      else value %= right;
+    }
+    return value;
+  };
+
+  // unary := ("-" | "+") unary | power
+  const parseUnary = (): number => {
+    if (peek() === "-") {
+      next();
+      return -parseUnary();
+    }
+    if (peek() === "+") {
+      next();
+      return parseUnary();
+    }
+    return parsePower();
+  };
+
+  // power := primary ("^" unary)?, right associative
+  const parsePower = (): number => {
+    const base = parsePrimary();
+    if (peek() === "^") {
+      next();
+      return base ** parseUnary();
+    }
+    return base;
+  };
+
+  const parsePrimary = (): number => {
+    const token = next();
+    if (token === undefined) throw new Error("Unexpected end of expression");
+
+    if (token === "(") {
+      const value = parseExpression();
+      expect(")");
+      return value;
+    }
+
+    if (/^[\d.]/.test(token)) return Number(token);
+
+    const name = token.toLowerCase();
+    if (Object.hasOwn(CONSTANTS, name)) return CONSTANTS[name];
+    if (Object.hasOwn(FUNCTIONS, name)) {
+      expect("(");
+      const value = parseExpression();
+      expect(")");
+      return FUNCTIONS[name](value);
+    }
+    if (/^[a-z]/.test(name)) throw new Error(`Unknown identifier "${token}"`);
+
+    throw new Error(`Unexpected "${token}"`);
+  };
+
+  const result = parseExpression();
+  if (position < tokens.length) {
+    throw new Error(`Unexpected "${tokens[position]}"`);
+  }
+  if (!Number.isFinite(result))
+    throw new Error("Result is not a finite number");
+  return result;
+}
+
+const parameters = z.object({
+  expression: z.string().describe("Expression to evaluate, e.g. 2 * (3 + 4)"),
+});
+
+export const calculatorTool: Tool<typeof parameters> = {
+  name: "calculator",
+  description:
+    "Evaluates an arithmetic expression exactly. Supports + - * / % ^, " +
+    "parentheses, pi, e and sqrt, abs, round, floor, ceil, ln, log, sin, " +
+    "cos, tan. Use it instead of doing arithmetic yourself.",
+  parameters,
+  async execute({ expression }) {
+    return { expression, result: evaluateExpression(expression) };
+  },
+};
@@ -0,0 +1,38 @@
+import { NextRequest } from "next/server";
+import { lumenNextHandler } from "@getlumen/server";
+import { z } from "zod";
+import type { Tool } from "./types";
+
+const parameters = z.object({});
+
+export const currentPlanTool: Tool<typeof parameters> = {
+  name: "get_current_plan",
+  description:
+    "Looks up the user's current subscription plan and its status. Use it " +
+    "when the user asks about their plan, billing or what they can access.",
+  parameters,
+  async execute(_args, { userId, origin }) {
+    // The lookup fetchSubscriptionStatus makes from the pricing table. That
+    // helper is client-only, so run its /api/lumen request in-process.
+    const url = new URL("/api/lumen/customers/subscription-status", origin);
+    url.searchParams.set("externalCustomerId", userId);
+
+    const status = (await lumenNextHandler({
+      request: new NextRequest(url),
+      userId,
+    })) as {
+      hasActiveSubscription?: boolean;
+      subscription?: { planName?: string; status?: string };
+    } | null;
+
+    if (!status?.hasActiveSubscription || !status.subscription) {
+      return { hasActiveSubscription: false };
+    }
+
+    return {
+      hasActiveSubscription: true,
+      planName: status.subscription.planName,
+      status: status.subscription.status,
+    };
+  },
+};
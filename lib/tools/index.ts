@@ -0,0 +1,162 @@
+import { zodToJsonSchema } from "zod-to-json-schema";
+import type {
+  ChatProvider,
+  ProviderToolCall,
+  ProviderToolResult,
+  ProviderToolSpec,
+  ProviderUsage,
+  StreamChatParams,
+} from "@/lib/providers";
+import type { ToolInvocation } from "@/lib/chat/types";
+import { formatIssues } from "@/lib/chat/schema";
+import type { Tool, ToolContext } from "./types";
+import { calculatorTool } from "./calculator";
+import { currentPlanTool } from "./current-plan";
+
+export type * from "./types";
+
+// Registry of the tools offered to models that support tool calling.
+// Adding a tool means adding a module above and an entry here.
+const TOOLS: Tool[] = [calculatorTool, currentPlanTool];
+
+// Tool rounds per reply, so a model cannot loop on tool calls forever
+const MAX_TOOL_STEPS = 5;
+
+export function getToolSpecs(): ProviderToolSpec[] {
+  return TOOLS.map((tool) => {
+    const inputSchema = zodToJsonSchema(tool.parameters, {
+      $refStrategy: "none",
+    }) as Record<string, unknown>;
+    // Providers take a bare object schema without the dialect marker
+    delete inputSchema.$schema;
+    return { name: tool.name, description: tool.description, inputSchema };
+  });
+}
+
+/**
+ * Validates and runs one tool call. Failures are returned as error results
+ * rather than thrown, so the model can see them and recover.
+ */
+export async function executeToolCall(
+  call: ProviderToolCall,
+  context: ToolContext
+): Promise<ToolInvocation> {
+  const invocation: ToolInvocation = {
+    id: call.id,
+    name: call.name,
+    arguments: call.arguments,
+  };
+  const fail = (message: string): ToolInvocation => ({
+    ...invocation,
+    result: { error: message },
+    isError: true,
+  });
+
+  const tool = TOOLS.find((t) => t.name === call.name);
+  if (!tool) return fail(`Unknown tool: ${call.name}`);
+
+  try {
+    invocation.arguments = JSON.parse(call.arguments || "{}");
+  } catch {
+    return fail("Arguments are not valid JSON");
+  }
+
+  const args = tool.parameters.safeParse(invocation.arguments);
+  if (!args.success) {
+    return fail(`Invalid arguments: ${formatIssues(args.error)}`);
+  }
+
+  try {
+    const result = await tool.execute(args.data, context);
+    return { ...invocation, result: result ?? null };
+  } catch (error) {
+    return fail(error instanceof Error ? error.message : "Tool failed");
+  }
+}
+
+/**
+ * Streams a reply, running the tools the model calls and feeding their
+ * results back until it answers in text. Resolves with the usage summed
+ * over all steps.
+ */
+export async function streamChatWithTools(
+  provider: ChatProvider,
+  params: StreamChatParams,
+  context: ToolContext,
+  handlers: {
+    onContent: (content: string) => void;
+    onToolCall: (invocation: ToolInvocation) => void;
+    onToolResult: (invocation: ToolInvocation) => void;
+  }
+): Promise<ProviderUsage> {
+  const tools =
+    provider.capabilities.tools && provider.formatToolStep
+      ? getToolSpecs()
+      : undefined;
+
+  const usage: ProviderUsage = {
+    inputTokens: 0,
+    outputTokens: 0,
+    totalTokens: 0,
+    characters: 0,
+    finishReason: "",
+  };
+  let messages = params.messages;
+  let hasText = false;
+
+  for (let step = 1; ; step++) {
+    let stepText = "";
+    // The step after the last tool round must answer in text
+    const result = await provider.streamChat(
+      { ...params, messages, tools: step > MAX_TOOL_STEPS ? undefined : tools },
+      (content) => {
+        // Keep the text of separate steps in separate paragraphs
+        if (!stepText && hasText) handlers.onContent("\n\n");
+        stepText += content;
+        hasText = true;
+        handlers.onContent(content);
+      }
+    );
+
+    usage.inputTokens += result.inputTokens;
+    usage.outputTokens += result.outputTokens;
+    usage.totalTokens += result.totalTokens;
+    usage.characters += result.characters;
+    usage.finishReason = result.finishReason;
+
+    if (
+      !result.toolCalls?.length ||
+      !provider.formatToolStep ||
+      result.finishReason === "aborted" ||
+      step > MAX_TOOL_STEPS
+    ) {
+      return usage;
+    }
+
+    const results: ProviderToolResult[] = [];
+    for (const call of result.toolCalls) {
+      handlers.onToolCall({
+        id: call.id,
+        name: call.name,
+        arguments: call.arguments,
+      });
+      const invocation = await executeToolCall(call, context);
+      handlers.onToolResult(invocation);
+      results.push({
+        id: call.id,
+        name: call.name,
+        content: JSON.stringify(invocation.result ?? null),
+      });
+    }
+
+    if (params.signal?.aborted) {
+      usage.finishReason = "aborted";
+      return usage;
+    }
+
+    messages = [
+      ...messages,
+      ...provider.formatToolStep(stepText, result.toolCalls, results),
+    ];
+  }
+}
@@ -0,0 +1,18 @@
+import type { z } from "zod";
+
+export interface ToolContext {
+  userId: string;
+  /** Origin of the chat request, for tools that go through the app's routes. */
+  origin: string;
+}
+
+/**
+ * A server-side tool the model can call. `parameters` validates the
+ * arguments and is sent to the provider as JSON Schema.
+ */
+export interface Tool<TParameters extends z.ZodType = z.ZodType> {
+  name: string;
+  description: string;
+  parameters: TParameters;
+  execute(args: z.infer<TParameters>, context: ToolContext): Promise<unknown>;
+}
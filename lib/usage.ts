@@ -0,0 +1,159 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createAdminClient } from "@/lib/supabase/admin";
+import type { MeterEvent } from "@/lib/metering";
+
+// The usage_events ledger: one row per generation, failed ones included.
+// Rows are written with the service role so users cannot forge them, and
+// read through the caller's client so that row level security scopes them
+// to the user.
+
+export interface UsageEventRow {
+  id: string;
+  user_id: string;
+  chat_id: string | null;
+  message_id: string;
+  model: string;
+  provider: string;
+  input_tokens: number;
+  output_tokens: number;
+  total_tokens: number;
+  characters: number;
+  latency_ms: number;
+  finish_reason: string;
+  cost_estimate: number | null;
+  metered: boolean;
+  meter_events: MeterEvent[];
+  created_at: string;
+}
+
+export interface UsageEvent {
+  id: string;
+  chatId: string | null;
+  messageId: string;
+  model: string;
+  provider: string;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  characters: number;
+  latencyMs: number;
+  finishReason: string;
+  /** Credits at CREDIT_PRICE_TABLE prices, null for unpriced models */
+  costEstimate: number | null;
+  metered: boolean;
+  meterEvents: MeterEvent[];
+  createdAt: Date;
+}
+
+export type NewUsageEvent = Omit<UsageEvent, "id" | "createdAt"> & {
+  userId: string;
+};
+
+function toUsageEvent(row: UsageEventRow): UsageEvent {
+  return {
+    id: row.id,
+    chatId: row.chat_id,
+    messageId: row.message_id,
+    model: row.model,
+    provider: row.provider,
+    inputTokens: row.input_tokens,
+    outputTokens: row.output_tokens,
+    totalTokens: row.total_tokens,
+    characters: row.characters,
+    latencyMs: row.latency_ms,
+    finishReason: row.finish_reason,
+    // numeric columns come back as strings
+    costEstimate: row.cost_estimate === null ? null : Number(row.cost_estimate),
+    metered: row.metered,
+    meterEvents: row.meter_events,
+    createdAt: new Date(row.created_at),
+  };
+}
+
+/**
+ * Writes one generation to the ledger. Failures are logged rather than
+ * thrown so that a finished reply is never turned into an error.
+ */
+export async function recordUsageEvent(event: NewUsageEvent): Promise<void> {
+  const supabase = createAdminClient();
+  const { error } = await supabase.from("usage_events").insert({
+    user_id: event.userId,
+    chat_id: event.chatId,
+    message_id: event.messageId,
+    model: event.model,
+    provider: event.provider,
+    input_tokens: event.inputTokens,
+    output_tokens: event.outputTokens,
+    total_tokens: event.totalTokens,
+    characters: event.characters,
+    latency_ms: event.latencyMs,
+    finish_reason: event.finishReason,
+    cost_estimate: event.costEstimate,
+    metered: event.metered,
+    meter_events: event.meterEvents,
+  });
+
+  if (error) {
+    console.error("Failed to record usage event:", error);
+  }
+}
+
+export interface UsageFilters {
+  /** Inclusive lower bound on created_at */
+  from?: Date;
+  /** Exclusive upper bound on created_at */
+  to?: Date;
+  model?: string;
+  limit: number;
+}
+
+/** Usage events matching `filters`, newest first. */
+export async function listUsageEvents(
+  supabase: SupabaseClient,
+  { from, to, model, limit }: UsageFilters
+): Promise<UsageEvent[]> {
+  let query = supabase
+    .from("usage_events")
+    .select("*")
+    .order("created_at", { ascending: false })
+    .limit(limit);
+
+  if (from) query = query.gte("created_at", from.toISOString());
+  if (to) query = query.lt("created_at", to.toISOString());
+  if (model) query = query.eq("model", model);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data as UsageEventRow[]).map(toUsageEvent);
+}
+
+const CSV_COLUMNS: Array<[string, (event: UsageEvent) => unknown]> = [
+  ["created_at", (e) => e.createdAt.toISOString()],
+  ["chat_id", (e) => e.chatId],
+  ["message_id", (e) => e.messageId],
+  ["model", (e) => e.model],
+  ["provider", (e) => e.provider],
+  ["input_tokens", (e) => e.inputTokens],
+  ["output_tokens", (e) => e.outputTokens],
+  ["total_tokens", (e) => e.totalTokens],
+  ["latency_ms", (e) => e.latencyMs],
+  ["finish_reason", (e) => e.finishReason],
+  ["cost_estimate", (e) => e.costEstimate],
+  ["metered", (e) => e.metered],
+];
+
+function toCsvField(value: unknown): string {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** Usage events as CSV with a header row, one line per event. */
+export function toUsageCsv(events: UsageEvent[]): string {
+  const lines = [CSV_COLUMNS.map(([name]) => name).join(",")];
+  for (const event of events) {
+    lines.push(
+      CSV_COLUMNS.map(([, value]) => toCsvField(value(event))).join(",")
+    );
+  }
+  return lines.join("\r\n") + "\r\n";
+}
@@ -0,0 +1,25 @@
+-- Credit reservations guard each chat generation so that it is billed at most
+-- once. A row is created as "reserved" before the upstream call and moves to
+-- "committed" (metered to Lumen) or "released" (not billed).
+create table if not exists public.credit_reservations (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  idempotency_key text not null,
+  model text not null,
+  status text not null default 'reserved'
+    check (status in ('reserved', 'committed', 'released')),
+  meter_events jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (user_id, idempotency_key)
+);
+
+alter table public.credit_reservations enable row level security;
+
+-- Users may read their reservations but only the server (service role) may
+-- write them, otherwise a client could mark a key as committed up front and
+-- skip billing.
+create policy "Users can read their own credit reservations"
+  on public.credit_reservations
+  for select
+  using (user_id = auth.uid());
@@ -0,0 +1,48 @@
+-- Normalized chat storage. Ids are generated by the client (uuid v4) so that
+-- rows line up with the chats kept in user_data by SyncProvider.
+create table if not exists public.conversations (
+  id uuid primary key,
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  title text not null default 'New Chat',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists conversations_user_updated_idx
+  on public.conversations (user_id, updated_at desc);
+
+create table if not exists public.messages (
+  id uuid primary key,
+  conversation_id uuid not null references public.conversations (id) on delete cascade,
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  role text not null check (role in ('user', 'assistant')),
+  content text not null default '',
+  model text,
+  -- Attachment metadata only; file contents live in the "files" bucket
+  attachments jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists messages_conversation_created_idx
+  on public.messages (conversation_id, created_at);
+
+alter table public.conversations enable row level security;
+alter table public.messages enable row level security;
+
+create policy "Users manage their own conversations"
+  on public.conversations
+  for all
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+create policy "Users manage messages in their own conversations"
+  on public.messages
+  for all
+  using (user_id = auth.uid())
+  with check (
+    user_id = auth.uid()
+    and exists (
+      select 1 from public.conversations c
+      where c.id = conversation_id and c.user_id = auth.uid()
+    )
+  );
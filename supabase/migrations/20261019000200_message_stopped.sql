@@ -0,0 +1,3 @@
+-- Replies the user stopped mid-stream keep their partial content
+alter table public.messages
+  add column if not exists stopped boolean not null default false;
@@ -0,0 +1,7 @@
+-- Branching conversations: each message points at the message it follows.
+-- Not a foreign key: chats that predate server persistence reference parents
+-- that were never uploaded.
+alter table public.messages
+  add column if not exists parent_id uuid;
+
+create index if not exists messages_parent_idx on public.messages (parent_id);
@@ -0,0 +1,38 @@
+-- Buffered SSE events of chat generations, used when GENERATION_STORE is
+-- "supabase" so that any server instance can resume or stop a stream. The
+-- generation id is the id of the assistant message being generated.
+create table if not exists public.generations (
+  id uuid primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  status text not null default 'streaming'
+    check (status in ('streaming', 'done', 'stopped', 'error')),
+  stop_requested boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.generation_events (
+  generation_id uuid not null references public.generations (id) on delete cascade,
+  id integer not null,
+  data text not null,
+  primary key (generation_id, id)
+);
+
+alter table public.generations enable row level security;
+alter table public.generation_events enable row level security;
+
+-- Only the server (service role) writes these tables
+create policy "Users can read their own generations"
+  on public.generations
+  for select
+  using (user_id = auth.uid());
+
+create policy "Users can read events of their own generations"
+  on public.generation_events
+  for select
+  using (
+    exists (
+      select 1 from public.generations g
+      where g.id = generation_id and g.user_id = auth.uid()
+    )
+  );
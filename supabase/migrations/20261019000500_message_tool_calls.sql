@@ -0,0 +1,3 @@
+-- Tool calls the assistant made while writing a reply, with their results
+alter table public.messages
+  add column if not exists tool_calls jsonb not null default '[]'::jsonb;
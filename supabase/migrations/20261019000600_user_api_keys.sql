@@ -0,0 +1,16 @@
+-- Provider API keys users bring themselves. Keys are encrypted by the server
+-- (AES-256-GCM with API_KEY_ENCRYPTION_SECRET) before they are stored.
+create table if not exists public.user_api_keys (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  provider text not null check (provider in ('openai', 'anthropic', 'gemini')),
+  encrypted_key text not null,
+  -- Last characters of the key, so users can tell which one is stored
+  key_hint text not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  primary key (user_id, provider)
+);
+
+-- No policies: only the server (service role) may read or write this table,
+-- so even the encrypted keys never reach the browser.
+alter table public.user_api_keys enable row level security;
@@ -0,0 +1,93 @@
+-- Per-user rate limits for /api/chat, used when RATE_LIMIT_STORE is
+-- "supabase". Only the server (service role) touches these tables and
+-- functions; RLS without policies keeps users out.
+create table if not exists public.rate_limit_buckets (
+  key text primary key,
+  tokens double precision not null,
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.rate_limit_leases (
+  lease_id uuid primary key,
+  key text not null,
+  expires_at timestamptz not null
+);
+
+create index if not exists rate_limit_leases_key_idx
+  on public.rate_limit_leases (key);
+
+alter table public.rate_limit_buckets enable row level security;
+alter table public.rate_limit_leases enable row level security;
+
+-- Takes one token from a bucket that refills continuously. Returns 0 when a
+-- token was taken, otherwise the seconds until the next one is available.
+create or replace function public.take_rate_limit_token(
+  p_key text,
+  p_capacity integer,
+  p_refill_per_second double precision
+) returns double precision
+language plpgsql
+as $$
+declare
+  v_now timestamptz := clock_timestamp();
+  v_tokens double precision;
+  v_updated_at timestamptz;
+begin
+  insert into public.rate_limit_buckets (key, tokens, updated_at)
+  values (p_key, p_capacity, v_now)
+  on conflict (key) do nothing;
+
+  select tokens, updated_at into v_tokens, v_updated_at
+  from public.rate_limit_buckets
+  where key = p_key
+  for update;
+
+  v_tokens := least(
+    p_capacity,
+    v_tokens + extract(epoch from v_now - v_updated_at) * p_refill_per_second
+  );
+
+  if v_tokens >= 1 then
+    update public.rate_limit_buckets
+    set tokens = v_tokens - 1, updated_at = v_now
+    where key = p_key;
+    return 0;
+  end if;
+
+  update public.rate_limit_buckets
+  set tokens = v_tokens, updated_at = v_now
+  where key = p_key;
+  return (1 - v_tokens) / p_refill_per_second;
+end;
+$$;
+
+-- Acquires one of p_max concurrency slots for p_key. Expired leases are
+-- dropped first; the advisory lock serializes acquisitions per key.
+create or replace function public.acquire_rate_limit_lease(
+  p_key text,
+  p_lease_id uuid,
+  p_max integer,
+  p_ttl_seconds integer
+) returns boolean
+language plpgsql
+as $$
+begin
+  perform pg_advisory_xact_lock(hashtext(p_key));
+
+  delete from public.rate_limit_leases
+  where key = p_key and expires_at < now();
+
+  if (select count(*) from public.rate_limit_leases where key = p_key) >= p_max then
+    return false;
+  end if;
+
+  insert into public.rate_limit_leases (lease_id, key, expires_at)
+  values (p_lease_id, p_key, now() + make_interval(secs => p_ttl_seconds));
+  return true;
+end;
+$$;
+
+revoke execute on function public.take_rate_limit_token(text, integer, double precision)
+  from public, anon, authenticated;
+revoke execute on function public.acquire_rate_limit_lease(text, uuid, integer, integer)
+  from public, anon, authenticated;
@@ -0,0 +1,36 @@
+-- One row per chat generation, written by the server after the reply is
+-- billed. Failed generations get a row too, with finish_reason 'error' and
+-- metered false. It is the record to check when a user disputes a charge.
+create table if not exists public.usage_events (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  -- Not a foreign key: the ledger outlives deleted conversations
+  chat_id uuid,
+  -- The idempotency key of the request, which is also the reply's id
+  message_id uuid not null,
+  model text not null,
+  provider text not null,
+  input_tokens integer not null default 0,
+  output_tokens integer not null default 0,
+  total_tokens integer not null default 0,
+  characters integer not null default 0,
+  latency_ms integer not null,
+  finish_reason text not null,
+  -- Credits at CREDIT_PRICE_TABLE prices, whatever the model's metering mode
+  cost_estimate numeric,
+  -- Whether events were sent to Lumen, and which ones
+  metered boolean not null default false,
+  meter_events jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists usage_events_user_created_idx
+  on public.usage_events (user_id, created_at desc);
+
+alter table public.usage_events enable row level security;
+
+-- Only the server (service role) writes this table
+create policy "Users can read their own usage events"
+  on public.usage_events
+  for select
+  using (user_id = auth.uid());
@@ -0,0 +1,4 @@
+-- Set on assistant replies written after earlier messages were left out or
+-- summarized to fit the model's context window: { omitted, summarized }
+alter table public.messages
+  add column if not exists context_compaction jsonb;
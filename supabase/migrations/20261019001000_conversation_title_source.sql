@@ -0,0 +1,6 @@
+-- Where a conversation's title came from: the start of the first message
+-- ('default'), a model ('generated') or the user ('manual'). Generated
+-- titles never replace manual ones.
+alter table public.conversations
+  add column if not exists title_source text not null default 'default'
+    check (title_source in ('default', 'generated', 'manual'));
@@ -0,0 +1,56 @@
+-- Full-text search over message content. The 'simple' configuration does
+-- not stem, so it works the same for every language chats are written in.
+alter table public.messages
+  add column if not exists search_vector tsvector
+    generated always as (to_tsvector('simple', content)) stored;
+
+create index if not exists messages_search_vector_idx
+  on public.messages using gin (search_vector);
+
+-- Matching messages of the caller's conversations, best first. Runs as the
+-- caller so that row level security applies. Matches in `snippet` are
+-- wrapped in chr(2) and chr(3), which cannot occur in the text the client
+-- renders, so that it can highlight them without parsing HTML.
+create or replace function public.search_messages(
+  p_query text,
+  p_limit integer default 50
+)
+returns table (
+  message_id uuid,
+  conversation_id uuid,
+  role text,
+  snippet text,
+  created_at timestamptz
+)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select
+    m.id,
+    m.conversation_id,
+    m.role,
+    ts_headline(
+      'simple',
+      m.content,
+      q.query,
+      'StartSel=' || chr(2) || ', StopSel=' || chr(3) ||
+        ', MaxWords=24, MinWords=12, MaxFragments=1'
+    ),
+    m.created_at
+  from public.messages m,
+    -- Every word of the query must match, as a prefix so that results
+    -- show up while the user is still typing
+    lateral (
+      select to_tsquery(
+        'simple',
+        string_agg(quote_literal(term) || ':*', ' & ')
+      ) as query
+      from regexp_split_to_table(lower(p_query), '[^[:alnum:]]+') as term
+      where term <> ''
+    ) q
+  where m.search_vector @@ q.query
+  order by ts_rank(m.search_vector, q.query) desc, m.created_at desc
+  limit least(p_limit, 200);
+$$;
@@ -0,0 +1,37 @@
+-- Read-only snapshots of conversations, served publicly at /share/[slug].
+-- The snapshot is copied at share time, so later messages are not exposed
+-- until the owner shares again.
+create table if not exists public.shared_chats (
+  slug text primary key,
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  -- Client chat id; not a foreign key since a chat may only exist locally
+  chat_id uuid not null,
+  title text not null,
+  -- Messages of the shared branch, with attachment metadata but no contents
+  messages jsonb not null,
+  created_at timestamptz not null default now(),
+  revoked_at timestamptz
+);
+
+create index if not exists shared_chats_user_chat_idx
+  on public.shared_chats (user_id, chat_id);
+
+alter table public.shared_chats enable row level security;
+
+-- Owners manage their links. The public page reads through the service
+-- role, so there is no policy for anonymous reads.
+create policy "Users can read their own shared chats"
+  on public.shared_chats
+  for select
+  using (user_id = auth.uid());
+
+create policy "Users can share their own chats"
+  on public.shared_chats
+  for insert
+  with check (user_id = auth.uid());
+
+create policy "Users can revoke their own shared chats"
+  on public.shared_chats
+  for update
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());